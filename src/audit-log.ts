@@ -0,0 +1,150 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { getStatePath } from './local-state.js';
+import { UpdateStoryData } from './softypm-client.js';
+
+// One JSON object per line and appended to; entries are only rewritten to give offline-created stories their real IDs
+const AUDIT_LOG_FILE = 'audit-log.jsonl';
+
+// Fields, at any depth of an entry, that hold story IDs
+const STORY_ID_FIELDS = new Set(['id', 'story_id', 'story_ids', 'blocked_by_id', 'blocked_by_story_id']);
+
+function withStoryIds(value: unknown, resolve: (id: number) => number, field?: string): unknown {
+  if (typeof value === 'number') {
+    return field && STORY_ID_FIELDS.has(field) ? resolve(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => withStoryIds(item, resolve, field));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, withStoryIds(item, resolve, key)]));
+  }
+  return value;
+}
+
+// How a change is reverted, worked out when it is made since only then is the before-state known
+export type UndoPlan =
+  | { kind: 'status'; story_id: number; status: number; expected_status: number }
+  // Created stories with the status they were created in, so the undo can tell if any has moved on since
+  | { kind: 'archive'; stories: { id: number; status: number }[] }
+  | { kind: 'fields'; story_id: number; fields: UpdateStoryData; expected: UpdateStoryData }
+  | { kind: 'dependency'; action: 'add' | 'remove'; story_id: number; blocked_by_id: number }
+  // A started timer, identified by its start so a later timer on the same story isn't discarded
+  | { kind: 'timer'; story_id: number; started_at: string };
+
+export interface AuditChange {
+  // One line for recent_changes, e.g. "#456 Card form: Backlog → In Progress"
+  summary: string;
+  story_ids: number[];
+  before: unknown;
+  after: unknown;
+  // Missing for changes that can't be reverted automatically, like comments or deletions
+  undo?: UndoPlan;
+}
+
+export interface AuditEntry extends AuditChange {
+  id: number;
+  timestamp: string;
+  profile: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  // Set on undo_last_change entries: the change they reverted
+  undoes?: number;
+}
+
+export class AuditLog {
+  private filePath: string;
+
+  // A namespace keeps each user's log apart when one server is shared
+  constructor(namespace?: string) {
+    this.filePath = getStatePath(namespace ? `audit/${namespace.replace(/[^a-zA-Z0-9_.-]/g, '_')}.jsonl` : AUDIT_LOG_FILE);
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  // Oldest first; a line that can't be parsed (e.g. cut off by a crash) is skipped
+  entries(): AuditEntry[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    return readFileSync(this.filePath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as AuditEntry];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  // Newest ID in the file; only the last readable line is parsed
+  private lastId(): number {
+    if (!existsSync(this.filePath)) {
+      return 0;
+    }
+
+    const lines = readFileSync(this.filePath, 'utf8').split('\n');
+    for (let index = lines.length - 1; index >= 0; index--) {
+      try {
+        const id = lines[index].trim() ? (JSON.parse(lines[index]) as AuditEntry).id : undefined;
+        if (typeof id === 'number') {
+          return id;
+        }
+      } catch {
+        // Cut off by a crash; the line before it still has a valid ID
+      }
+    }
+    return 0;
+  }
+
+  // The CLI, a stdio server and shared HTTP sessions can all write one log, so the ID comes from the file each time
+  append(entry: Omit<AuditEntry, 'id' | 'timestamp'>): AuditEntry {
+    const record: AuditEntry = {
+      id: this.lastId() + 1,
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+    return record;
+  }
+
+  /**
+   * Point entries for stories created offline at the IDs SoftyPM gave them once the queue is replayed,
+   * so they can still be undone. Temporary IDs are negative, so no real ID is ever rewritten.
+   */
+  resolveStoryIds(ids: Map<number, number>): void {
+    if (ids.size === 0 || !existsSync(this.filePath)) {
+      return;
+    }
+
+    const resolve = (id: number) => ids.get(id) ?? id;
+    const lines = this.entries().map(entry => {
+      const resolved = withStoryIds(entry, resolve) as AuditEntry;
+      resolved.summary = entry.summary.replace(/#(-\d+)\b/g, (_, id) => `#${resolve(Number(id))}`);
+      return JSON.stringify(resolved) + '\n';
+    });
+
+    // Replace the file in one step, like writeJsonFile, so a crash can't leave it half-written
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, lines.join(''), 'utf8');
+    renameSync(tempPath, this.filePath);
+  }
+}
+
+// Change ID → the undo entry that reverted it
+export function undoneChanges(entries: AuditEntry[]): Map<number, number> {
+  return new Map(entries.filter(entry => entry.undoes).map(entry => [entry.undoes!, entry.id]));
+}
+
+// The newest change that isn't an undo and hasn't been undone
+export function lastOpenChange(entries: AuditEntry[]): AuditEntry | null {
+  const undone = undoneChanges(entries);
+  return [...entries].reverse().find(entry => !entry.undoes && !undone.has(entry.id)) || null;
+}
@@ -0,0 +1,329 @@
+import { extname } from 'path';
+import { z } from 'zod';
+
+export const BACKLOG_FILE_FORMATS = ['markdown', 'csv', 'json'] as const;
+
+export type BacklogFileFormat = typeof BACKLOG_FILE_FORMATS[number];
+
+// Planning docs import_backlog looks for in the workspace when no file is given
+export const PLANNING_FILES = ['TODO.md', 'ROADMAP.md'];
+
+// Markdown heading for stories that don't belong to an epic
+const NO_EPIC_HEADING = 'Stories without an epic';
+
+const CSV_COLUMNS = ['id', 'epic', 'name', 'description', 'estimate', 'status'];
+
+export interface ExportedStory {
+  id: number;
+  name: string;
+  description?: string;
+  estimate?: number;
+  status: string;
+  done: boolean;
+}
+
+export interface BacklogExport {
+  project: { id: number; name: string };
+  exported_at: string;
+  epics: { id: number; name: string; description?: string; stories: ExportedStory[] }[];
+  stories: ExportedStory[];
+}
+
+// One story read from a backlog file; line is the file line (Markdown, CSV) or item number (JSON)
+export interface BacklogRow {
+  line: number;
+  epic?: string;
+  name: string;
+  description?: string;
+  estimate?: number;
+  // A workflow state name, resolved by the importer
+  status?: string;
+  // A checked Markdown checkbox
+  done?: boolean;
+}
+
+export interface BacklogParseError {
+  line: number;
+  error: string;
+}
+
+export interface ParsedBacklog {
+  rows: BacklogRow[];
+  errors: BacklogParseError[];
+}
+
+export function detectBacklogFormat(path: string): BacklogFileFormat {
+  switch (extname(path).toLowerCase()) {
+    case '.csv':
+      return 'csv';
+    case '.json':
+      return 'json';
+    default:
+      return 'markdown';
+  }
+}
+
+function formatEstimate(estimate?: number) {
+  return estimate ? ` (${estimate}h)` : '';
+}
+
+function allStories(doc: BacklogExport): { epic?: string; story: ExportedStory }[] {
+  return [
+    ...doc.epics.flatMap(epic => epic.stories.map(story => ({ epic: epic.name, story }))),
+    ...doc.stories.map(story => ({ story })),
+  ];
+}
+
+function markdownStory(story: ExportedStory): string {
+  const description = story.description
+    ? '\n' + story.description.split('\n').map(line => `  ${line}`.trimEnd()).join('\n')
+    : '';
+  return `- [${story.done ? 'x' : ' '}] ${story.name}${formatEstimate(story.estimate)}${description}`;
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function serializeBacklog(doc: BacklogExport, format: BacklogFileFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(doc, null, 2) + '\n';
+
+    case 'csv':
+      return [
+        CSV_COLUMNS.join(','),
+        ...allStories(doc).map(({ epic, story }) =>
+          [story.id, epic, story.name, story.description, story.estimate, story.status].map(csvCell).join(',')
+        ),
+      ].join('\n') + '\n';
+
+    case 'markdown': {
+      const sections = doc.epics.map(epic => [
+        `## ${epic.name}`,
+        ...(epic.description ? [epic.description] : []),
+        ...epic.stories.map(markdownStory),
+      ].join('\n\n'));
+      if (doc.stories.length > 0) {
+        sections.push([`## ${NO_EPIC_HEADING}`, ...doc.stories.map(markdownStory)].join('\n\n'));
+      }
+      return `# ${doc.project.name}\n\n${sections.join('\n\n')}\n`;
+    }
+  }
+}
+
+// A trailing estimate such as "(3h)", "[2.5h]" or "(4 hours)"
+const ESTIMATE_SUFFIX = /\s*[([]\s*(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?\s*[)\]]\s*$/i;
+const LIST_ITEM = /^[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$|^\d+[.)]\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+function parseMarkdown(content: string): ParsedBacklog {
+  const rows: BacklogRow[] = [];
+  const errors: BacklogParseError[] = [];
+  let epic: string | undefined;
+  let seenTitle = false;
+  let current: BacklogRow | null = null;
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+
+    // Indented lines under a list item, including nested bullets, describe that item
+    if (current && trimmed && /^\s/.test(raw)) {
+      current.description = current.description ? `${current.description}\n${trimmed}` : trimmed;
+      return;
+    }
+    current = null;
+
+    const heading = trimmed.match(HEADING);
+    if (heading) {
+      // The first top-level heading is the document title, not an epic
+      if (heading[1] === '#' && !seenTitle && rows.length === 0 && !epic) {
+        seenTitle = true;
+        return;
+      }
+      const name = heading[2].replace(/^epic:\s*/i, '').trim();
+      epic = name && name !== NO_EPIC_HEADING ? name : undefined;
+      return;
+    }
+
+    const item = trimmed.match(LIST_ITEM);
+    if (!item) {
+      return;
+    }
+
+    const checkbox = item[1] ?? item[3];
+    let name = (item[2] ?? item[4]).trim();
+    const estimate = name.match(ESTIMATE_SUFFIX);
+    name = name.replace(ESTIMATE_SUFFIX, '').replace(/^~~(.*)~~$/, '$1').trim();
+    if (!name) {
+      errors.push({ line, error: 'List item has no story name' });
+      return;
+    }
+
+    current = {
+      line,
+      epic,
+      name,
+      estimate: estimate ? Number(estimate[1]) : undefined,
+      done: checkbox ? checkbox.toLowerCase() === 'x' : undefined,
+    };
+    rows.push(current);
+  });
+
+  return { rows, errors };
+}
+
+// RFC 4180 records: quoted fields may contain commas, quotes ("") and newlines
+function parseCsvRecords(content: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      cells.push(cell);
+      records.push({ line: recordLine, cells });
+      cells = [];
+      cell = '';
+      recordLine = ++line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || cells.length > 0) {
+    cells.push(cell);
+    records.push({ line: recordLine, cells });
+  }
+  return records.filter(record => record.cells.some(value => value.trim()));
+}
+
+function parseCsv(content: string): ParsedBacklog {
+  const [header, ...records] = parseCsvRecords(content);
+  if (!header) {
+    return { rows: [], errors: [] };
+  }
+
+  const columns = header.cells.map(name => name.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name));
+  const nameColumn = column('name', 'title', 'story');
+  if (nameColumn < 0) {
+    return { rows: [], errors: [{ line: header.line, error: 'The header row needs a "name" column' }] };
+  }
+  const [epicColumn, descriptionColumn, estimateColumn, statusColumn] = [
+    column('epic'),
+    column('description'),
+    column('estimate', 'hours'),
+    column('status'),
+  ];
+
+  const rows: BacklogRow[] = [];
+  const errors: BacklogParseError[] = [];
+  for (const { line, cells } of records) {
+    const value = (index: number) => (index >= 0 ? cells[index]?.trim() || undefined : undefined);
+    const name = value(nameColumn);
+    const estimate = value(estimateColumn)?.replace(/h(ours?)?$/i, '');
+
+    if (!name) {
+      errors.push({ line, error: 'Missing story name' });
+    } else if (estimate && !(Number(estimate) > 0)) {
+      errors.push({ line, error: `Invalid estimate "${value(estimateColumn)}"` });
+    } else {
+      rows.push({
+        line,
+        name,
+        epic: value(epicColumn),
+        description: value(descriptionColumn),
+        estimate: estimate ? Number(estimate) : undefined,
+        status: value(statusColumn),
+      });
+    }
+  }
+
+  return { rows, errors };
+}
+
+const JsonStorySchema = z.object({
+  name: z.string().trim().min(1, 'Missing story name'),
+  epic: z.string().optional(),
+  description: z.string().optional(),
+  estimate: z.number().positive().optional(),
+  status: z.string().optional(),
+  done: z.boolean().optional(),
+});
+
+const JsonBacklogSchema = z.union([
+  z.array(z.unknown()),
+  z.object({
+    epics: z.array(z.object({ name: z.string().min(1), stories: z.array(z.unknown()).default([]) })).default([]),
+    stories: z.array(z.unknown()).default([]),
+  }),
+]);
+
+// Accepts an export_backlog file, or a plain array of stories with an optional "epic" name
+function parseJson(content: string): ParsedBacklog {
+  let parsed: z.infer<typeof JsonBacklogSchema>;
+  try {
+    parsed = JsonBacklogSchema.parse(JSON.parse(content));
+  } catch (error) {
+    const reason = error instanceof SyntaxError ? error.message : 'expected an array of stories or an object with epics and stories';
+    return { rows: [], errors: [{ line: 0, error: `Invalid JSON backlog: ${reason}` }] };
+  }
+
+  const items: { epic?: string; item: unknown }[] = Array.isArray(parsed)
+    ? parsed.map(item => ({ item }))
+    : [
+        ...parsed.epics.flatMap(epic => epic.stories.map(item => ({ epic: epic.name, item }))),
+        ...parsed.stories.map(item => ({ item })),
+      ];
+
+  const rows: BacklogRow[] = [];
+  const errors: BacklogParseError[] = [];
+  items.forEach(({ epic, item }, index) => {
+    const story = JsonStorySchema.safeParse(item);
+    if (story.success) {
+      rows.push({ line: index + 1, epic, ...story.data });
+    } else {
+      errors.push({ line: index + 1, error: story.error.issues.map(issue => `${issue.path.join('.') || 'story'}: ${issue.message}`).join('; ') });
+    }
+  });
+
+  return { rows, errors };
+}
+
+export function parseBacklog(content: string, format: BacklogFileFormat): ParsedBacklog {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(content);
+    case 'csv':
+      return parseCsv(content);
+    case 'json':
+      return parseJson(content);
+  }
+}
@@ -0,0 +1,181 @@
+import { parseArgs } from 'util';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { formatDoctorReport } from './doctor.js';
+import { renderToolOutput, StoryDetails } from './formatters.js';
+import { SoftYPMServer } from './server.js';
+import type { StateCategory } from './workflow.js';
+
+export const CLI_USAGE = `Usage: softypm <command> [options]
+
+Commands:
+  projects                                 List your projects
+  use <project-id>                         Set the project for this workspace
+  project                                  Show the current project
+  stories list [--status S] [--epic ID] [--search TEXT] [--project ID]
+                                           List stories
+  story show <id>                          Show a story with its history
+  story start <id> [--notes TEXT]          Move a story into progress
+  story done <id> [--notes TEXT]           Finish a story
+  story move <id> <status> [--notes TEXT]  Move a story to any status
+  sync                                     Replay changes queued while offline
+  doctor                                   Check configuration and connectivity
+
+Options:
+  --json                                   Print JSON instead of Markdown
+  -h, --help                               Show this help
+
+Without a command, the MCP server starts on stdio.`;
+
+// Bad arguments: the message is printed with the usage
+class UsageError extends Error {}
+
+export interface CliIo {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+const stdio: CliIo = {
+  out: text => console.log(text),
+  err: text => console.error(text),
+};
+
+interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+function parseId(value: string | undefined, label: string): number {
+  const id = Number(value);
+  if (!value || !Number.isInteger(id) || id <= 0) {
+    throw new UsageError(value ? `${label} must be a positive number, got "${value}"` : `Missing ${label}`);
+  }
+  return id;
+}
+
+/**
+ * start and done move to the first state of that category the workflow allows next, so the
+ * transition rules are exactly those update_story_status applies for an agent.
+ */
+async function nextStateIn(server: SoftYPMServer, storyId: number, category: StateCategory, verb: string): Promise<number> {
+  const { output } = await server.runTool('get_story', { story_id: storyId });
+  const details = output.data as StoryDetails;
+  const target = details.next_states.find(state => state.category === category);
+  if (!target) {
+    const options = details.next_states.map(state => state.name).join(', ') || 'none';
+    throw new Error(`Story #${storyId} is ${details.status.name} and can't be ${verb} from there. Next states: ${options}`);
+  }
+  return target.id;
+}
+
+async function commandToTool(server: SoftYPMServer, positionals: string[], values: Record<string, string | boolean | undefined>): Promise<ToolCall> {
+  const [command, sub, id, status] = positionals;
+  const option = (name: string) => (typeof values[name] === 'string' ? values[name] as string : undefined);
+  const notes = option('notes');
+
+  switch (command) {
+    case 'projects':
+      return { name: 'list_projects', args: {} };
+
+    case 'use':
+      return { name: 'set_project_context', args: { project_id: parseId(sub, 'project ID') } };
+
+    case 'project':
+      return { name: 'get_project_info', args: option('project') ? { project_id: parseId(option('project'), 'project ID') } : {} };
+
+    case 'stories':
+      if (sub && sub !== 'list') {
+        throw new UsageError(`Unknown stories command "${sub}"`);
+      }
+      return {
+        name: 'list_my_stories',
+        args: {
+          ...(option('status') ? { status: option('status') } : {}),
+          ...(option('epic') ? { epic_id: parseId(option('epic'), 'epic ID') } : {}),
+          ...(option('search') ? { query: option('search') } : {}),
+          ...(option('project') ? { project_id: parseId(option('project'), 'project ID') } : {}),
+        },
+      };
+
+    case 'story': {
+      const storyId = parseId(id, 'story ID');
+      switch (sub) {
+        case 'show':
+          return { name: 'get_story', args: { story_id: storyId } };
+        case 'start':
+          return { name: 'update_story_status', args: { story_id: storyId, status: await nextStateIn(server, storyId, 'active', 'started'), notes } };
+        case 'done':
+          return { name: 'update_story_status', args: { story_id: storyId, status: await nextStateIn(server, storyId, 'done', 'finished'), notes } };
+        case 'move':
+          if (!status) {
+            throw new UsageError('Missing status, e.g. `softypm story move 123 "In Progress"`');
+          }
+          return { name: 'update_story_status', args: { story_id: storyId, status, notes } };
+        default:
+          throw new UsageError(sub ? `Unknown story command "${sub}"` : 'Missing story command');
+      }
+    }
+
+    case 'sync':
+      return { name: 'sync_status', args: { replay: true } };
+
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+/**
+ * Run one CLI command against a SoftYPMServer, reusing its tools so people and agents follow the same rules.
+ * The server is only created once the arguments are valid, so --help works even with a broken policy or profiles file.
+ * Returns the process exit code: 1 when the command failed or a status change was rejected, 2 for bad usage.
+ */
+export async function runCli(argv: string[], createServer: () => SoftYPMServer = () => new SoftYPMServer(), io: CliIo = stdio): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        status: { type: 'string' },
+        epic: { type: 'string' },
+        search: { type: 'string' },
+        project: { type: 'string' },
+        notes: { type: 'string' },
+      },
+    });
+  } catch (error) {
+    io.err(`${error instanceof Error ? error.message : String(error)}\n\n${CLI_USAGE}`);
+    return 2;
+  }
+
+  const { positionals, values } = parsed;
+  if (values.help || positionals.length === 0 || positionals[0] === 'help') {
+    io.out(CLI_USAGE);
+    return 0;
+  }
+
+  try {
+    const server = createServer();
+    if (positionals[0] === 'doctor') {
+      const checks = await server.doctor();
+      io.out(values.json ? JSON.stringify({ command: 'doctor', checks }, null, 2) : formatDoctorReport(checks));
+      return checks.some(check => check.status === 'fail') ? 1 : 0;
+    }
+
+    const call = await commandToTool(server, positionals, values);
+    const { output, format, notices } = await server.runTool(call.name, { ...call.args, ...(values.json ? { format: 'json' } : {}) });
+    const rendered = renderToolOutput(call.name, output, format, notices);
+    io.out(rendered.content.map(item => item.text).join('\n\n'));
+    return (output.data as { outcome?: string }).outcome === 'rejected' ? 1 : 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.err(`${error.message}\n\nRun \`softypm help\` for usage.`);
+      return 2;
+    }
+    // McpError prefixes its code, which means nothing on a terminal
+    const text = error instanceof McpError ? error.message.replace(/^MCP error -?\d+: /, '') : error instanceof Error ? error.message : String(error);
+    io.err(`❌ ${text}`);
+    return 1;
+  }
+}
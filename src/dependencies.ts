@@ -0,0 +1,134 @@
+import { Epic, Story } from './softypm-client.js';
+import { Workflow } from './workflow.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface NextStoryOptions {
+  epicId?: number;
+  maxEstimate?: number;
+  limit: number;
+  // Blockers from outside the given stories, e.g. in other projects; any still missing count as unfinished
+  blockers?: Story[];
+  // Blocker IDs SoftyPM answered with a 404, which no longer hold anything up
+  deletedBlockers?: number[];
+}
+
+export interface RecommendedStory {
+  story: Story;
+  epic_name?: string;
+  epic_priority?: number | null;
+  // Days since the story was created; null when the API doesn't say
+  age_days: number | null;
+}
+
+export interface BlockerState {
+  blockers: Story[];
+  // Blockers that couldn't be loaded, so there's no telling whether they are finished
+  unknown_blockers: number[];
+}
+
+export interface BlockedStory extends BlockerState {
+  story: Story;
+}
+
+export interface NextStoryPlan {
+  recommended: RecommendedStory[];
+  // Backlog stories held up by unfinished blockers, which are recommended work in their own right
+  blocked: BlockedStory[];
+  in_progress: Story[];
+}
+
+// A blocker stops holding a story up once it is done or archived
+export function isOpenBlocker(blocker: Story, workflow: Workflow): boolean {
+  return !blocker.archived_at && !workflow.isCategory(blocker.status, 'done');
+}
+
+/**
+ * What still holds a story up. Only blockers known to be deleted are dropped; any other blocker missing
+ * from storiesById couldn't be loaded and is reported as unknown, which still counts as blocking.
+ */
+export function blockerState(
+  story: Story,
+  storiesById: Map<number, Story>,
+  workflow: Workflow,
+  deleted: ReadonlySet<number> = new Set()
+): BlockerState {
+  const ids = (story.blocked_by || []).filter(id => !deleted.has(id));
+  return {
+    blockers: ids
+      .map(id => storiesById.get(id))
+      .filter((blocker): blocker is Story => !!blocker && isOpenBlocker(blocker, workflow)),
+    unknown_blockers: ids.filter(id => !storiesById.has(id)),
+  };
+}
+
+// Would blocking storyId on blockerId close a loop? Follows blocked_by from the blocker back to the story.
+export function createsCycle(storyId: number, blockerId: number, stories: Story[]): boolean {
+  const byId = new Map(stories.map(story => [story.id, story]));
+  const seen = new Set<number>();
+  const pending = [blockerId];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === storyId) {
+      return true;
+    }
+    if (!seen.has(id)) {
+      seen.add(id);
+      pending.push(...(byId.get(id)?.blocked_by || []));
+    }
+  }
+  return false;
+}
+
+/**
+ * Rank unblocked backlog stories: epics by priority (lower first, stories without one last), then the
+ * oldest story first, then the smallest estimate, so quick wins in important epics come out on top.
+ */
+export function recommendNext(stories: Story[], epics: Epic[], workflow: Workflow, options: NextStoryOptions, now: Date = new Date()): NextStoryPlan {
+  const live = stories.filter(story => !story.archived_at && story.id > 0);
+  // Archived stories stay in the lookup, so a blocker that was archived counts as finished rather than unknown
+  const byId = new Map([...stories, ...(options.blockers || [])].map(story => [story.id, story]));
+  const deleted = new Set(options.deletedBlockers);
+  const epicsById = new Map(epics.map(epic => [epic.id, epic]));
+
+  const candidates = live
+    .filter(story => workflow.isCategory(story.status, 'backlog'))
+    .filter(story => !options.epicId || story.epic_id === options.epicId)
+    .filter(story => options.maxEstimate === undefined || (story.estimate !== undefined && story.estimate <= options.maxEstimate));
+
+  const blocked: BlockedStory[] = [];
+  const ready: Story[] = [];
+  for (const story of candidates) {
+    const state = blockerState(story, byId, workflow, deleted);
+    if (state.blockers.length > 0 || state.unknown_blockers.length > 0) {
+      blocked.push({ story, ...state });
+    } else {
+      ready.push(story);
+    }
+  }
+
+  const priority = (story: Story) => (story.epic_id ? epicsById.get(story.epic_id)?.priority : null) ?? Infinity;
+  const created = (story: Story) => (story.created_at ? Date.parse(story.created_at) : Infinity);
+  const estimate = (story: Story) => story.estimate ?? Infinity;
+  ready.sort((a, b) =>
+    priority(a) - priority(b) ||
+    created(a) - created(b) ||
+    estimate(a) - estimate(b) ||
+    a.id - b.id
+  );
+
+  return {
+    recommended: ready.slice(0, options.limit).map(story => {
+      const epic = story.epic_id ? epicsById.get(story.epic_id) : undefined;
+      return {
+        story,
+        epic_name: epic?.name,
+        epic_priority: epic ? epic.priority ?? null : undefined,
+        age_days: story.created_at ? Math.max(0, Math.floor((now.getTime() - Date.parse(story.created_at)) / DAY_MS)) : null,
+      };
+    }),
+    blocked,
+    in_progress: live.filter(story => workflow.isCategory(story.status, 'active')),
+  };
+}
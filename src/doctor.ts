@@ -0,0 +1,100 @@
+import { SoftYPMClient } from './softypm-client.js';
+import { contextSourceLabels } from './formatters.js';
+import type { ProjectContextSource } from './project-context.js';
+import type { Workflow } from './workflow.js';
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  name: string;
+  status: DoctorStatus;
+  detail: string;
+}
+
+// What the server resolved for the active profile, for the checks to verify
+export interface DoctorTarget {
+  profile: string;
+  baseUrl: string;
+  // Empty when the profile has no token; tokenError explains why one couldn't be read
+  apiToken: string;
+  tokenError?: string;
+  client: () => SoftYPMClient;
+  projectId: number | null;
+  projectSource: ProjectContextSource | null;
+  // Throws when the workflow can't be fetched, rather than falling back to the default
+  loadWorkflow: (projectId: number) => Promise<Workflow>;
+}
+
+function message(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Check the active profile from configuration through to the project's stories and workflow.
+ * Stops at the first check the rest depend on: no token, or no healthy API.
+ */
+export async function runDoctor(target: DoctorTarget): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [{ name: 'Account', status: 'pass', detail: `${target.profile} → ${target.baseUrl}` }];
+
+  if (target.tokenError || !target.apiToken) {
+    checks.push({
+      name: 'API token',
+      status: 'fail',
+      detail: target.tokenError || 'No API token. Set SOFTYPM_API_TOKEN, or a token for this profile in the profiles file.',
+    });
+    return checks;
+  }
+  checks.push({ name: 'API token', status: 'pass', detail: 'Configured' });
+
+  const client = target.client();
+  if (!await client.healthCheck()) {
+    checks.push({
+      name: 'Connection',
+      status: 'fail',
+      detail: `No healthy response from ${target.baseUrl}. Check the base URL, the API token and your network.`,
+    });
+    return checks;
+  }
+  checks.push({ name: 'Connection', status: 'pass', detail: 'SoftyPM API is reachable' });
+
+  if (!target.projectId) {
+    checks.push({
+      name: 'Project',
+      status: 'warn',
+      detail: 'No project context. Run `softypm use <project-id>`, add a .softypm.json or set DEFAULT_PROJECT_ID.',
+    });
+  } else {
+    try {
+      const project = await client.getProject(target.projectId);
+      const source = target.projectSource ? ` (from ${contextSourceLabels[target.projectSource]})` : '';
+      checks.push({ name: 'Project', status: 'pass', detail: `${project.name} (ID: ${project.id})${source}` });
+
+      const stories = await client.getProjectStories(target.projectId);
+      checks.push({ name: 'Stories', status: 'pass', detail: `${stories.length} stories readable` });
+
+      try {
+        const workflow = await target.loadWorkflow(target.projectId);
+        checks.push({ name: 'Workflow', status: 'pass', detail: `${workflow.describe()} (${workflow.source})` });
+      } catch (error) {
+        checks.push({ name: 'Workflow', status: 'fail', detail: `Project #${target.projectId}: ${message(error)}` });
+      }
+    } catch (error) {
+      checks.push({ name: 'Project', status: 'fail', detail: `Project #${target.projectId}: ${message(error)}` });
+    }
+  }
+
+  const queued = client.pendingWrites.length;
+  checks.push(queued > 0
+    ? { name: 'Offline queue', status: 'warn', detail: `${queued} change(s) waiting to sync. Run \`softypm sync\`.` }
+    : { name: 'Offline queue', status: 'pass', detail: 'Nothing waiting to sync' });
+
+  return checks;
+}
+
+export function formatDoctorReport(checks: DoctorCheck[]) {
+  const icons: Record<DoctorStatus, string> = { pass: '✅', warn: '⚠️', fail: '❌' };
+  const failed = checks.some(check => check.status === 'fail');
+  const lines = checks.map(check => `${icons[check.status]} **${check.name}**: ${check.detail}`);
+
+  return `🩺 **SoftyPM Doctor**\n\n${lines.join('\n')}\n\n${failed ? 'Fix the failed check above, then run `softypm doctor` again.' : 'Everything needed to use SoftyPM from the CLI and from Claude Code is in place.'}`;
+}
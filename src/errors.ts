@@ -0,0 +1,135 @@
+import { AxiosError } from 'axios';
+
+export type ValidationDetails = Record<string, string[]>;
+
+export interface SoftYPMErrorOptions {
+  status?: number;
+  details?: ValidationDetails;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every failure talking to the SoftyPM API. Subclasses let callers react to the kind
+ * of failure (bad input, missing resource, outage) instead of parsing message strings.
+ */
+export class SoftYPMError extends Error {
+  readonly status?: number;
+  readonly details?: ValidationDetails;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: SoftYPMErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.details = options.details;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export class AuthenticationError extends SoftYPMError {}
+
+export class PermissionError extends SoftYPMError {}
+
+export class NotFoundError extends SoftYPMError {}
+
+// 400/422 responses; details holds the API's per-field messages
+export class ValidationError extends SoftYPMError {}
+
+export class RateLimitError extends SoftYPMError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, options: SoftYPMErrorOptions = {}) {
+    super(message, { ...options, status: 429, retryable: true });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServerError extends SoftYPMError {}
+
+// No response at all: DNS failure, refused connection, dropped network
+export class NetworkError extends SoftYPMError {}
+
+export class TimeoutError extends SoftYPMError {}
+
+// Failures that mean SoftyPM could not be reached at all, as opposed to rejecting the request
+export function isConnectivityError(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function formatValidationDetails(details: ValidationDetails): string {
+  return Object.entries(details)
+    .map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+    .join('; ');
+}
+
+export function fromAxiosError(error: AxiosError<any>): SoftYPMError {
+  if (error.response) {
+    const status = error.response.status;
+    const data = error.response.data;
+    const message = data?.message || error.response.statusText;
+
+    if (status === 401) {
+      return new AuthenticationError('Authentication failed. Please check your API token.', { status, cause: error });
+    }
+    if (status === 403) {
+      return new PermissionError('Access denied. You may not have permission to access this resource.', { status, cause: error });
+    }
+    if (status === 404) {
+      return new NotFoundError('Resource not found.', { status, cause: error });
+    }
+    if (status === 400 || status === 422) {
+      const details: ValidationDetails | undefined = data?.errors && typeof data.errors === 'object' ? data.errors : undefined;
+      const summary = details ? ` (${formatValidationDetails(details)})` : '';
+      return new ValidationError(`Validation failed: ${message}${summary}`, { status, details, cause: error });
+    }
+    if (status === 429) {
+      const retryAfterMs = parseRetryAfter(error.response.headers?.['retry-after']);
+      return new RateLimitError(
+        `Rate limited by SoftyPM.${retryAfterMs !== undefined ? ` Retry after ${Math.ceil(retryAfterMs / 1000)}s.` : ''}`,
+        retryAfterMs,
+        { cause: error }
+      );
+    }
+    if (status >= 500) {
+      return new ServerError('SoftYPM server error. Please try again later.', { status, retryable: true, cause: error });
+    }
+
+    return new SoftYPMError(`API Error: ${message}`, { status, cause: error });
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new TimeoutError('Request to SoftYPM timed out.', { retryable: true, cause: error });
+  }
+
+  if (error.request) {
+    return new NetworkError('Unable to connect to SoftYPM. Please check your internet connection.', { retryable: true, cause: error });
+  }
+
+  return new SoftYPMError(`Request failed: ${error.message}`, { cause: error });
+}
+
+// Prefix an error with what was being attempted, keeping its class so callers can still branch on it
+export function withContext(error: unknown, context: string): SoftYPMError {
+  if (error instanceof SoftYPMError) {
+    error.message = `${context}: ${error.message}`;
+    return error;
+  }
+
+  return new SoftYPMError(`${context}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+}
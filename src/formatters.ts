@@ -0,0 +1,1219 @@
+import { z } from 'zod';
+import type { Epic, Project, Sprint, Story, StoryActivity, StoryComment, SyncReport } from './softypm-client.js';
+import type { AuditEntry } from './audit-log.js';
+import type { BacklogFileFormat, BacklogParseError } from './backlog-files.js';
+import type { BlockedStory, RecommendedStory } from './dependencies.js';
+import type { GitCommit } from './git.js';
+import type { PendingWrite } from './offline-store.js';
+import type { ProjectContextSource } from './project-context.js';
+import type { SprintPlan } from './sprint-planning.js';
+import { BurndownPoint, CycleTimeSummary, DateRange, renderReportTable, ReportKind, ReportOutput, reportTable, VelocityWeek } from './reports.js';
+import { STORY_BREAKDOWN_EXAMPLE, workflowGuidance } from './prompts.js';
+import { formatHours } from './time-tracking.js';
+import { StateSummary, Workflow, WorkflowDefinition, WorkflowState } from './workflow.js';
+
+export const OUTPUT_FORMATS = ['markdown', 'json'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// Every tool accepts `format`; SOFTYPM_OUTPUT_FORMAT sets the default
+export const OutputFormatSchema = z.object({
+  format: z.enum(OUTPUT_FORMATS).optional(),
+});
+
+export const OUTPUT_FORMAT_PROPERTY = {
+  type: 'string',
+  enum: [...OUTPUT_FORMATS],
+  description: 'markdown (default) for reading, or json for the structured result with the full project and story objects',
+};
+
+/**
+ * What a tool handler returns: the structured result, sent as-is for `format: "json"`, and the
+ * same result rendered as Markdown by one of the formatters below.
+ */
+export interface ToolOutput<T extends object = object> {
+  data: T;
+  markdown: string;
+}
+
+export const contextSourceLabels: Record<ProjectContextSource, string> = {
+  argument: 'tool argument',
+  state: 'saved context',
+  repo: '.softypm.json',
+  profile: 'profile default',
+  env: 'DEFAULT_PROJECT_ID',
+};
+
+export function formatTimestamp(timestamp?: string) {
+  return timestamp ? new Date(timestamp).toLocaleString() : 'Unknown date';
+}
+
+// Render a project as a single list line for discovery tools
+function formatProjectLine(project: Project) {
+  const client = project.client?.name ? ` - ${project.client.name}` : '';
+  return `• #${project.id}: ${project.name}${client} (${project.progress_percentage || 0}% complete)`;
+}
+
+function formatStoryLine(story: Story, workflow: Workflow) {
+  return `• #${story.id}: ${story.name} [${workflow.stateName(story.status)}] ${story.estimate ? `(${story.estimate}h)` : ''}`.trimEnd();
+}
+
+export interface EpicSummary {
+  story_count: number;
+  done_count: number;
+  total_estimate: number;
+  completion: number;
+}
+
+export interface StoryDraftInput {
+  name: string;
+  description?: string;
+  estimate?: number;
+}
+
+export interface StoryBatchResult {
+  draft: StoryDraftInput;
+  outcome: 'created' | 'existing' | 'failed';
+  story?: Story;
+  error?: string;
+}
+
+function formatBatchResult(result: StoryBatchResult) {
+  switch (result.outcome) {
+    case 'created':
+      return `✅ #${result.story!.id}: ${result.draft.name}${result.draft.estimate ? ` (${result.draft.estimate}h)` : ''}`;
+    case 'existing':
+      return `⏭️ #${result.story!.id}: ${result.draft.name} - already exists, skipped`;
+    case 'failed':
+      return `❌ ${result.draft.name} - ${result.error}`;
+  }
+}
+
+// Project context
+
+export interface ProjectContextSet {
+  project: Project;
+  workspace_root: string;
+  workflow: WorkflowDefinition;
+}
+
+export function formatProjectContextSet(data: ProjectContextSet, workflow: Workflow) {
+  return `✅ Project context set to: ${data.project.name} (ID: ${data.project.id})\n💾 Saved for workspace: ${data.workspace_root}\n\n${workflowGuidance(workflow)}\n\nProject Progress: ${data.project.progress_percentage || 0}% complete`;
+}
+
+export interface ProjectContextCleared {
+  project_id: number | null;
+  source: ProjectContextSource | null;
+}
+
+export function formatProjectContextCleared(data: ProjectContextCleared) {
+  return data.project_id && data.source
+    ? `🧹 Saved project context cleared.\n\nNow using project #${data.project_id} from ${contextSourceLabels[data.source]}.`
+    : '🧹 Saved project context cleared.\n\nNo project context is set. Use `set_project_context` or `find_project` to choose one.';
+}
+
+// Projects
+
+export interface ProjectList {
+  // Set for find_project
+  query?: string;
+  projects: Project[];
+}
+
+export function formatProjectList(data: ProjectList) {
+  const nextStep = '**Next step**: Use `set_project_context` with a project ID to start working.';
+
+  if (data.query === undefined) {
+    return data.projects.length === 0
+      ? '📁 **No Projects Found**\n\nYour API token does not have access to any projects.'
+      : `📁 **Projects** (${data.projects.length}):\n\n${data.projects.map(formatProjectLine).join('\n')}\n\n${nextStep}`;
+  }
+
+  return data.projects.length === 0
+    ? `🔍 **No Projects Match** "${data.query}"\n\nUse \`list_projects\` to see every project you have access to.`
+    : `🔍 **Projects Matching** "${data.query}" (${data.projects.length}):\n\n${data.projects.map(formatProjectLine).join('\n')}\n\n${nextStep}`;
+}
+
+// A project on its own, e.g. for the project resource, without the story counts of get_project_info
+export function formatProjectDetails(project: Project) {
+  const lines = [`📊 **${project.name}** (Project #${project.id})`];
+  if (project.client?.name) {
+    lines.push(`**Client**: ${project.client.name}`);
+  }
+  lines.push(`**Progress**: ${project.progress_percentage || 0}% complete`);
+  if (project.description) {
+    lines.push('', project.description);
+  }
+  return lines.join('\n');
+}
+
+export interface ProjectInfo {
+  project: Project;
+  context_source: ProjectContextSource;
+  story_counts: { backlog: number; active: number; done: number };
+  // Up to three active stories, or the recommended unblocked backlog stories when nothing is in progress
+  next_stories: Story[];
+  workflow: WorkflowDefinition;
+}
+
+export function formatProjectInfo(data: ProjectInfo, workflow: Workflow) {
+  const startName = workflow.startState?.name || 'In Progress';
+  const nextStories = data.story_counts.active > 0
+    ? data.next_stories.map(s => `• #${s.id}: ${s.name} (${s.estimate || '?'}h)`).join('\n')
+    : data.next_stories.map(s => `• #${s.id}: ${s.name} (${s.estimate || '?'}h) - Move to ${startName} first`).join('\n');
+
+  return `📊 **${data.project.name}** (Project #${data.project.id})
+**Context**: ${contextSourceLabels[data.context_source]}
+
+**Progress**: ${data.project.progress_percentage || 0}% complete
+**Stories**: ${data.story_counts.done} done, ${data.story_counts.active} in progress, ${data.story_counts.backlog} in backlog
+
+**🚀 Next Stories to Work On:**
+${nextStories}
+
+**Workflow**: ${workflow.describe()}
+
+**Remember**:
+- Move stories to "${startName}" before starting work
+- Create new stories for any additional work discovered
+- Keep stories 1-4 hours each for best tracking`;
+}
+
+// Stories
+
+// Returned instead of saving a story over the size limit
+export interface StoryTooLarge {
+  outcome: 'too_large';
+  name: string;
+  estimate: number;
+  max_estimate: number;
+}
+
+export function formatStoryTooLarge(data: StoryTooLarge) {
+  return `⚠️ **Story Too Large**: "${data.name}" is estimated at ${data.estimate} hours.\n\nStories should be 1-4 hours for best tracking. Consider breaking this down into smaller stories:\n\n${STORY_BREAKDOWN_EXAMPLE}\n\nUse \`create_stories\` to create the smaller stories in one call, or \`split_story\` to replace an existing large story.`;
+}
+
+export type StoryCreated = StoryTooLarge | {
+  // queued: SoftyPM was unreachable, so the story has a temporary negative ID until it syncs
+  outcome: 'created' | 'queued';
+  story: Story;
+  status: StateSummary;
+};
+
+export function formatStoryCreated(data: StoryCreated, workflow: Workflow) {
+  if (data.outcome === 'too_large') {
+    return formatStoryTooLarge(data);
+  }
+
+  const { story } = data;
+  if (data.outcome === 'queued') {
+    return `📥 **Story Queued**: #${story.id} - ${story.name}\n\nSoftyPM is unreachable, so the story was saved locally with a temporary ID and will be created when the connection returns. Status changes to #${story.id} are queued too.`;
+  }
+
+  return `✅ **Story Created**: #${story.id} - ${story.name}\n\n📝 **Description**: ${story.description || 'No description provided'}\n⏱️ **Estimate**: ${story.estimate || 'Not estimated'} hours\n📊 **Status**: ${data.status.name} (ready to start)\n\n**Next step**: Use \`update_story_status\` to move it to "${workflow.startState?.name || 'In Progress'}" when you start working on it.`;
+}
+
+// Batch validation failed, so nothing was created
+export interface StoryDraftsRejected {
+  outcome: 'invalid';
+  problems: string[];
+}
+
+function formatProblems(data: StoryDraftsRejected) {
+  return data.problems.map(problem => `• ${problem}`).join('\n');
+}
+
+export type StoriesCreated = StoryDraftsRejected | {
+  outcome: 'completed' | 'partial';
+  epic_id?: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  created_hours: number;
+  results: StoryBatchResult[];
+};
+
+export function formatStoriesCreated(data: StoriesCreated) {
+  if (data.outcome === 'invalid') {
+    return `⚠️ **No Stories Created**: fix these problems and try again.\n\n${formatProblems(data)}`;
+  }
+
+  let text = `${data.failed > 0 ? '⚠️' : '✅'} **Stories Created**: ${data.created} created, ${data.skipped} skipped, ${data.failed} failed${data.epic_id ? ` (Epic #${data.epic_id})` : ''}\n⏱️ **Estimate**: ${data.created_hours} hours created\n\n${data.results.map(formatBatchResult).join('\n')}`;
+  if (data.failed > 0) {
+    text += '\n\n**Next step**: Call `create_stories` again with the same list. Stories that were already created will be skipped.';
+  }
+  return text;
+}
+
+export type StorySplit = StoryDraftsRejected | {
+  // partial: some children failed, so the original was left unchanged
+  outcome: 'split' | 'partial';
+  original: Story;
+  children: Story[];
+  child_hours: number;
+  results: StoryBatchResult[];
+  original_action: 'archived' | 'kept' | 'unchanged';
+  comment_error?: string;
+};
+
+export function formatStorySplit(data: StorySplit) {
+  if (data.outcome === 'invalid') {
+    return `⚠️ **Story Not Split**: fix these problems and try again.\n\n${formatProblems(data)}`;
+  }
+
+  const { original } = data;
+  let text = `✂️ **Story Split**: #${original.id} - ${original.name}${original.estimate ? ` (${original.estimate}h)` : ''}\n⏱️ **Children**: ${data.child_hours} hours across ${data.results.length} stories\n\n${data.results.map(formatBatchResult).join('\n')}`;
+
+  if (data.outcome === 'partial') {
+    const failed = data.results.filter(r => r.outcome === 'failed').length;
+    return text + `\n\n⚠️ ${failed} child ${failed === 1 ? 'story' : 'stories'} failed, so #${original.id} was left unchanged. Call \`split_story\` again with the same list to finish.`;
+  }
+
+  const childList = data.children.map(child => `#${child.id}`).join(', ');
+  if (data.comment_error) {
+    text += `\n⚠️ Could not comment on #${original.id}: ${data.comment_error}`;
+  }
+  return text + (data.original_action === 'archived'
+    ? `\n\n🗄️ Original story #${original.id} archived and replaced by ${childList}.`
+    : `\n\n🔗 Original story #${original.id} kept and linked to ${childList}.`);
+}
+
+// Result of stopping a timer and pushing its time entry
+export interface TimerStop {
+  // failed: SoftyPM rejected the entry, so the timer keeps running and can be retried
+  outcome: 'not_running' | 'discarded' | 'logged' | 'failed';
+  hours?: number;
+  error?: string;
+}
+
+function formatTimerStop(stop: TimerStop) {
+  switch (stop.outcome) {
+    case 'not_running':
+      return 'no timer running';
+    case 'discarded':
+      return 'stopped after less than a minute, nothing logged';
+    case 'logged':
+      return `stopped, logged ${formatHours(stop.hours!)}`;
+    case 'failed':
+      return `still running - could not log ${formatHours(stop.hours!)}: ${stop.error}. Use \`stop_timer\` to retry.`;
+  }
+}
+
+export type StatusTransition = {
+  outcome: 'rejected';
+  story: Story;
+  from: StateSummary;
+  to: StateSummary;
+  reason: string;
+  valid_next: WorkflowState[];
+} | {
+  outcome: 'updated' | 'queued';
+  story: Story;
+  from: StateSummary;
+  to: StateSummary;
+  notes?: string;
+  notes_saved?: boolean;
+  notes_error?: string;
+  // Branch commits added to the transition comment, with include_commits
+  commits?: GitCommit[];
+  commits_linked?: boolean;
+  commits_error?: string;
+  // Unfinished stories this one is blocked by, when it moves into active work anyway
+  open_blockers?: Story[];
+  // Blockers that couldn't be loaded, which may be unfinished too
+  unknown_blockers?: number[];
+  timer?: { action: 'started' | 'already_running' } | ({ action: 'stopped' } & TimerStop);
+};
+
+export function formatStatusTransition(data: StatusTransition, workflow: Workflow) {
+  const { story } = data;
+  if (data.outcome === 'rejected') {
+    return `⚠️ **Invalid Workflow Transition**\n\n${data.reason}\n\n**Valid workflow**: ${workflow.describe()}\n\nCurrent status: ${data.from.name}`;
+  }
+
+  const transition = `${data.from.name} → ${data.to.name}`;
+  let message = data.outcome === 'queued'
+    ? `📥 **Status Change Queued**: #${story.id} - ${story.name}\n\n📊 **Status**: ${transition} (will sync when SoftyPM is reachable)`
+    : `✅ **Story Updated**: #${story.id} - ${story.name}\n\n📊 **Status**: ${transition}`;
+
+  if (data.notes && data.outcome === 'queued') {
+    message += `\n📝 **Notes** (saved as a comment when the change syncs): ${data.notes}`;
+  } else if (data.notes && data.notes_saved) {
+    message += `\n📝 **Notes** (saved as comment): ${data.notes}`;
+  } else if (data.notes) {
+    message += `\n📝 **Notes**: ${data.notes}\n⚠️ Status was updated but the notes could not be saved as a comment: ${data.notes_error}`;
+  }
+
+  if (data.commits && data.outcome === 'queued') {
+    message += `\n🔗 **Commits** (saved as a comment when the change syncs):\n${data.commits.map(formatCommitLine).join('\n')}`;
+  } else if (data.commits && data.commits_linked) {
+    message += `\n🔗 **Commits** (saved as comment):\n${data.commits.map(formatCommitLine).join('\n')}`;
+  } else if (data.commits) {
+    message += `\n⚠️ Status was updated but the commits could not be linked: ${data.commits_error}`;
+  }
+
+  const stillBlocking = [
+    ...(data.open_blockers || []).map(b => `#${b.id} ${b.name} [${workflow.stateName(b.status)}]`),
+    ...(data.unknown_blockers || []).map(id => `#${id} [couldn't be loaded]`),
+  ];
+  if (stillBlocking.length > 0) {
+    message += `\n⚠️ **Still blocked by**: ${stillBlocking.join(', ')}. Check the blockers are far enough along before building on them.`;
+  }
+
+  if (data.timer) {
+    message += `\n⏱️ **Timer**: ${data.timer.action === 'stopped' ? formatTimerStop(data.timer) : data.timer.action === 'started' ? 'started' : 'already running'}`;
+  }
+
+  const doneName = workflow.statesIn('done')[0]?.name || 'Done';
+  if (data.to.category === 'active') {
+    message += `\n\n🔨 **Now ${data.to.name}** - You are actively working on this story. Remember to move it to "${doneName}" when completed.`;
+  } else if (data.to.category === 'done') {
+    message += '\n\n🎉 **Story Completed!** - Great work! This story is now marked as done.';
+  }
+
+  return message;
+}
+
+export interface StoryDetails {
+  story: Story;
+  status: StateSummary;
+  // Omitted when neither time entries nor a running timer are available
+  time?: {
+    actual_hours: number;
+    timer_started_at?: string;
+  };
+  // Supplementary lists are omitted when SoftyPM couldn't return them
+  status_history?: StoryActivity[];
+  comments?: StoryComment[];
+  next_states: WorkflowState[];
+}
+
+export function formatStoryDetails(data: StoryDetails, workflow: Workflow) {
+  const { story } = data;
+  let text = `📋 **Story #${story.id}**: ${story.name}\n\n📝 **Description**: ${story.description || 'No description'}\n📊 **Status**: ${data.status.name}\n⏱️ **Estimate**: ${story.estimate || 'Not estimated'} hours\n📅 **Created**: ${story.created_at ? new Date(story.created_at).toLocaleDateString() : 'Unknown'}`;
+
+  if (data.time) {
+    const { actual_hours: actualHours, timer_started_at: timerStartedAt } = data.time;
+    text += `\n🕒 **Actual**: ${formatHours(actualHours)}${story.estimate ? ` of ${story.estimate}h estimated (${Math.round((actualHours / story.estimate) * 100)}%)` : ''}`;
+    if (timerStartedAt) {
+      text += ` - timer running since ${formatTimestamp(timerStartedAt)}`;
+    }
+  }
+
+  if (story.blocked_by && story.blocked_by.length > 0) {
+    text += `\n⛔ **Blocked by**: ${story.blocked_by.map(id => `#${id}`).join(', ')}`;
+  }
+  if (story.blocks && story.blocks.length > 0) {
+    text += `\n🔗 **Blocks**: ${story.blocks.map(id => `#${id}`).join(', ')}`;
+  }
+
+  if (data.status_history && data.status_history.length > 0) {
+    text += `\n\n**🔄 Status History:**\n${data.status_history.map(a => `• ${formatTimestamp(a.created_at)}: ${a.from_status ? `${workflow.stateName(a.from_status)} → ` : ''}${workflow.stateName(a.to_status!)}${a.user?.name ? ` (${a.user.name})` : ''}`).join('\n')}`;
+  }
+
+  if (data.comments && data.comments.length > 0) {
+    text += `\n\n**💬 Recent Comments:**\n${data.comments.map(c => `• ${formatTimestamp(c.created_at)}${c.author?.name ? ` ${c.author.name}` : ''}: ${c.body}`).join('\n')}`;
+  }
+
+  const nextSteps = data.next_states.map(state => state.name).join(', ');
+  const summary = data.status.category === 'backlog'
+    ? `💡 **Next**: Move to "${workflow.startState?.name || 'In Progress'}" when you start working`
+    : data.status.category === 'done'
+      ? '✅ **Complete**: This story is done'
+      : `🔨 **Active**: Currently ${data.status.name}`;
+  return text + `\n\n${summary}${nextSteps ? `\n➡️ **Valid next steps**: ${nextSteps}` : ''}`;
+}
+
+export type StoryUpdated = StoryTooLarge | {
+  outcome: 'updated';
+  story: Story;
+  previous: Story;
+  // Only the fields that were sent
+  changes: { name?: string; description?: string; estimate?: number; epic_id?: number };
+};
+
+export function formatStoryUpdated(data: StoryUpdated) {
+  if (data.outcome === 'too_large') {
+    return formatStoryTooLarge(data);
+  }
+
+  const { changes, previous } = data;
+  const lines: string[] = [];
+  if (changes.name !== undefined) {
+    lines.push(`• **Name**: ${previous.name} → ${changes.name}`);
+  }
+  if (changes.description !== undefined) {
+    lines.push('• **Description**: updated');
+  }
+  if (changes.estimate !== undefined) {
+    lines.push(`• **Estimate**: ${previous.estimate || 'Not estimated'} → ${changes.estimate} hours`);
+  }
+  if (changes.epic_id !== undefined) {
+    lines.push(`• **Epic**: ${previous.epic_id ? `#${previous.epic_id}` : 'None'} → #${changes.epic_id}`);
+  }
+
+  return `✏️ **Story Updated**: #${data.story.id} - ${data.story.name}\n\n${lines.join('\n')}`;
+}
+
+export interface StoryMoved {
+  // False when the story was already in the epic
+  moved: boolean;
+  story: Story;
+  epic: Epic;
+  previous_epic_id: number | null;
+}
+
+export function formatStoryMoved(data: StoryMoved) {
+  const { story, epic } = data;
+  if (!data.moved) {
+    return `ℹ️ Story #${story.id} is already in epic #${epic.id} (${epic.name}).`;
+  }
+  return `📦 **Story Moved**: #${story.id} - ${story.name}\n\n📚 **Epic**: ${data.previous_epic_id ? `#${data.previous_epic_id}` : 'None'} → #${epic.id} (${epic.name})`;
+}
+
+export interface StoryArchived {
+  action: 'archived' | 'deleted';
+  story: Story;
+}
+
+export function formatStoryArchived(data: StoryArchived) {
+  const { story } = data;
+  return data.action === 'deleted'
+    ? `🗑️ **Story Deleted**: #${story.id} - ${story.name}\n\nThis story has been permanently removed.`
+    : `🗄️ **Story Archived**: #${story.id} - ${story.name}\n\nThe story is hidden from the backlog but kept for reference.`;
+}
+
+export interface StoryList {
+  project_id: number;
+  filters: { status?: StateSummary; query?: string; epic_id?: number };
+  stories: Story[];
+  total: number;
+  offset: number;
+  next_offset: number | null;
+  // Arguments for the next list_my_stories call, when there is another page
+  next_page_args: Record<string, unknown> | null;
+}
+
+export function formatStoryList(data: StoryList, workflow: Workflow) {
+  const filters = [
+    data.filters.status ? `status "${data.filters.status.name}"` : null,
+    data.filters.query ? `matching "${data.filters.query}"` : null,
+    data.filters.epic_id ? `in epic #${data.filters.epic_id}` : null,
+  ].filter(Boolean).join(', ');
+
+  if (data.total === 0) {
+    return `📋 **No Stories Found** ${filters ? `with ${filters}` : ''}`.trimEnd();
+  }
+  if (data.stories.length === 0) {
+    return `📋 **No More Stories**: offset ${data.offset} is past the last of ${data.total} matching stories.`;
+  }
+
+  let footer = `Showing ${data.offset + 1}-${data.offset + data.stories.length} of ${data.total}`;
+  if (data.next_page_args) {
+    footer += `\n\n**Next page**: call \`list_my_stories\` with ${JSON.stringify(data.next_page_args)}`;
+  }
+
+  return `📋 **Stories**${filters ? ` (${filters})` : ''}:\n\n${data.stories.map(story => formatStoryLine(story, workflow)).join('\n')}\n\n${footer}`;
+}
+
+// Time tracking
+
+export interface TimerStarted {
+  story: Story;
+  started_at: string;
+  already_running: boolean;
+  elapsed_hours: number;
+}
+
+export function formatTimerStarted(data: TimerStarted) {
+  const { story } = data;
+  return data.already_running
+    ? `⏱️ Timer for #${story.id} - ${story.name} is already running (started ${formatTimestamp(data.started_at)}, ${formatHours(data.elapsed_hours)} so far).`
+    : `⏱️ **Timer Started** for #${story.id} - ${story.name}\n\nUse \`stop_timer\` when you finish, or move the story to Done or Backlog to stop it automatically.`;
+}
+
+export interface TimerStopped extends TimerStop {
+  story_id: number;
+}
+
+export function formatTimerStopped(data: TimerStopped) {
+  return `⏱️ **Timer** for #${data.story_id}: ${formatTimerStop(data)}`;
+}
+
+export interface TimeLogged {
+  story: Story;
+  hours: number;
+  description?: string;
+  started_at: string;
+}
+
+export function formatTimeLogged(data: TimeLogged) {
+  return `🕒 **Time Logged**: ${formatHours(data.hours)} on #${data.story.id} - ${data.story.name}${data.description ? `\n\n📝 ${data.description}` : ''}`;
+}
+
+export interface CommentAdded {
+  story_id: number;
+  comment: StoryComment | null;
+  body: string;
+}
+
+export function formatCommentAdded(data: CommentAdded) {
+  return `💬 **Comment Added** to story #${data.story_id}${data.comment?.id ? ` (comment #${data.comment.id})` : ''}\n\n${data.body}`;
+}
+
+// Dependencies
+
+export interface DependencyChanged {
+  // already_set: the dependency existed (add) or didn't (remove), so nothing changed
+  outcome: 'added' | 'removed' | 'already_set';
+  story: Story;
+  blocker: Story;
+  // Whether the blocker still holds the story up
+  blocker_open: boolean;
+}
+
+export function formatDependencyChanged(data: DependencyChanged, workflow: Workflow) {
+  const story = `#${data.story.id} ${data.story.name}`;
+  const blocker = `#${data.blocker.id} ${data.blocker.name} [${workflow.stateName(data.blocker.status)}]`;
+  switch (data.outcome) {
+    case 'added':
+      return `⛔ **Dependency Added**: ${story} is blocked by ${blocker}${data.blocker_open ? '' : '\n\nThe blocker is already finished, so this story can start.'}`;
+    case 'removed':
+      return `🔓 **Dependency Removed**: ${story} is no longer blocked by ${blocker}`;
+    case 'already_set':
+      return `⏭️ Nothing changed: ${story} ${data.story.blocked_by?.includes(data.blocker.id) ? 'is already' : 'was not'} blocked by ${blocker}.`;
+  }
+}
+
+export interface NextStory {
+  project_id: number;
+  recommended: RecommendedStory[];
+  blocked: BlockedStory[];
+  in_progress: Story[];
+}
+
+function formatRecommendation(item: RecommendedStory, index: number) {
+  const details = [
+    item.story.estimate ? `${item.story.estimate}h` : 'not estimated',
+    item.epic_name ? `${item.epic_name}${item.epic_priority ? ` (priority ${item.epic_priority})` : ''}` : 'no epic',
+    ...(item.age_days !== null ? [`waiting ${item.age_days} day(s)`] : []),
+  ];
+  return `${index + 1}. #${item.story.id} - ${item.story.name} · ${details.join(' · ')}`;
+}
+
+export function formatNextStory(data: NextStory, workflow: Workflow) {
+  let text = `🧭 **What to Work On Next** (Project #${data.project_id})`;
+
+  if (data.in_progress.length > 0) {
+    text += `\n\n🔨 **Already in progress** - consider finishing these first:\n${data.in_progress.map(story => formatStoryLine(story, workflow)).join('\n')}`;
+  }
+
+  text += data.recommended.length > 0
+    ? `\n\n**Recommended** (epic priority, then oldest, then smallest):\n${data.recommended.map(formatRecommendation).join('\n')}`
+    : '\n\nNo unblocked backlog story matches. Create stories, or finish the blockers below.';
+
+  if (data.blocked.length > 0) {
+    const lines = data.blocked.map(({ story, blockers, unknown_blockers: unknown }) =>
+      `• #${story.id} ${story.name} ← ${[
+        ...blockers.map(b => `#${b.id} ${b.name} [${workflow.stateName(b.status)}]`),
+        ...unknown.map(id => `#${id} [couldn't be loaded]`),
+      ].join(', ')}`);
+    text += `\n\n⛔ **Blocked** (${data.blocked.length}):\n${lines.join('\n')}`;
+  }
+
+  const [top] = data.recommended;
+  if (top) {
+    text += `\n\n**Next step**: Move #${top.story.id} to "${workflow.startState?.name || 'In Progress'}" with \`update_story_status\` when you start.`;
+  }
+  return text;
+}
+
+// Audit log
+
+export interface RecentChange extends AuditEntry {
+  // The undo entry that reverted this change
+  undone_by: number | null;
+}
+
+export interface RecentChanges {
+  log_path: string;
+  // Newest first
+  changes: RecentChange[];
+  total: number;
+}
+
+function formatAuditLine(change: RecentChange) {
+  const marker = change.undoes
+    ? `↩️ undid #${change.undoes}`
+    : change.undone_by ? `~~undone by #${change.undone_by}~~` : change.undo ? '↩️ can be undone' : 'not undoable';
+  return `• **#${change.id}** ${formatTimestamp(change.timestamp)} · \`${change.tool}\` · ${change.summary} (${marker})`;
+}
+
+export function formatRecentChanges(data: RecentChanges) {
+  if (data.changes.length === 0) {
+    return `🧾 **Recent Changes**: nothing recorded yet.\n\nLog: ${data.log_path}`;
+  }
+
+  return `🧾 **Recent Changes** (${data.changes.length} of ${data.total}, newest first)\n\n${data.changes.map(formatAuditLine).join('\n')}\n\nLog: ${data.log_path}\nUse \`undo_last_change\` to revert the newest change, or pass \`change_id\` for an earlier one.`;
+}
+
+export type ChangeUndone =
+  | { outcome: 'nothing_to_undo' }
+  | { outcome: 'not_found'; change_id: number }
+  | { outcome: 'already_undone'; change: AuditEntry; undone_by: number }
+  | { outcome: 'not_undoable' | 'conflict'; change: AuditEntry; reason: string }
+  | {
+    outcome: 'undone';
+    change: AuditEntry;
+    summary: string;
+    // The undo's own audit entry; null if the log couldn't be written
+    undo_id: number | null;
+    // Side effects worth knowing about, e.g. a discarded timer
+    notes: string[];
+  };
+
+export function formatChangeUndone(data: ChangeUndone) {
+  switch (data.outcome) {
+    case 'nothing_to_undo':
+      return '🧾 Nothing to undo: every recorded change has been undone already.';
+    case 'not_found':
+      return `❌ No change #${data.change_id} in the audit log. Use \`recent_changes\` to find it.`;
+    case 'already_undone':
+      return `⏭️ Change #${data.change.id} (${data.change.summary}) was already undone by #${data.undone_by}.`;
+    case 'not_undoable':
+    case 'conflict':
+      return `❌ **Can't undo #${data.change.id}** (\`${data.change.tool}\`: ${data.change.summary})\n\n${data.reason}`;
+    case 'undone': {
+      const notes = data.notes.length > 0 ? `\n\n${data.notes.map(note => `ℹ️ ${note}`).join('\n')}` : '';
+      const logged = data.undo_id === null ? '\n\n⚠️ The undo itself could not be written to the audit log.' : '';
+      return `↩️ **Undone #${data.change.id}** (\`${data.change.tool}\`): ${data.summary}${notes}${logged}`;
+    }
+  }
+}
+
+// Epics
+
+export interface EpicList {
+  project_id: number;
+  epics: (Epic & { summary: EpicSummary })[];
+}
+
+export function formatEpicList(data: EpicList) {
+  if (data.epics.length === 0) {
+    return `📚 **No Epics Found** in project #${data.project_id}\n\nUse \`create_epic\` to group related stories under a feature.`;
+  }
+
+  const epicList = data.epics
+    .map(({ summary, ...epic }) => `• #${epic.id}: ${epic.name} - ${summary.done_count}/${summary.story_count} stories done, ${summary.total_estimate}h estimated (${summary.completion}% complete)`)
+    .join('\n');
+  return `📚 **Epics** (Project #${data.project_id}):\n\n${epicList}\n\n**Tip**: Pass an epic's ID as \`epic_id\` to \`create_story\` to group new work under it.`;
+}
+
+export interface EpicCreated {
+  epic: Epic;
+}
+
+export function formatEpicCreated(data: EpicCreated) {
+  const { epic } = data;
+  return `✅ **Epic Created**: #${epic.id} - ${epic.name}\n\n📝 **Description**: ${epic.description || 'No description provided'}\n\n**Next step**: Use \`create_story\` with \`epic_id: ${epic.id}\` to add 1-4 hour stories to this epic.`;
+}
+
+export interface EpicDetails {
+  epic: Epic;
+  stories: Story[];
+  summary: EpicSummary;
+}
+
+export function formatEpicDetails(data: EpicDetails, workflow: Workflow) {
+  const { epic, summary } = data;
+  const storyList = data.stories.length > 0
+    ? data.stories.map(story => formatStoryLine(story, workflow)).join('\n')
+    : 'No stories yet';
+  return `📚 **Epic #${epic.id}**: ${epic.name}\n\n📝 **Description**: ${epic.description || 'No description'}\n📊 **Progress**: ${summary.completion}% complete (${summary.done_count}/${summary.story_count} stories done)\n⏱️ **Estimate Total**: ${summary.total_estimate} hours\n\n**Stories:**\n${storyList}`;
+}
+
+// Sprints
+
+export interface SprintSummary {
+  story_count: number;
+  committed_hours: number;
+  done_hours: number;
+  // Null when the sprint has no capacity set
+  remaining_capacity_hours: number | null;
+  completion: number;
+}
+
+function formatSprintDates(sprint: Sprint) {
+  return sprint.starts_on || sprint.ends_on ? `${sprint.starts_on || '?'} → ${sprint.ends_on || '?'}` : 'No dates set';
+}
+
+export interface SprintPlanned {
+  project_id: number;
+  plan: SprintPlan;
+  // Set once the plan was committed to a new or existing sprint
+  sprint: Sprint | null;
+}
+
+export function formatSprintPlanned(data: SprintPlanned) {
+  const { plan, sprint } = data;
+  const header = sprint
+    ? `✅ **Sprint Planned**: #${sprint.id} - ${sprint.name} (${formatSprintDates(sprint)})`
+    : `🗓️ **Sprint Proposal** (Project #${data.project_id})`;
+  let text = `${header}\n\n⏱️ **Committed**: ${plan.committed_hours}h of ${plan.capacity_hours}h capacity, ${plan.remaining_hours}h remaining`;
+
+  text += plan.stories.length > 0
+    ? `\n\n**${sprint ? 'Added' : 'Proposed'} stories (${plan.stories.length}):**\n${plan.stories.map(story => `• #${story.id}: ${story.name} (${story.estimate}h)${story.epic_id ? ` - Epic #${story.epic_id}` : ''}`).join('\n')}`
+    : '\n\nNo backlog story fits this capacity.';
+
+  if (plan.skipped.length > 0) {
+    const shown = plan.skipped.slice(0, 10).map(({ story, reason }) => reason === 'not_estimated'
+      ? `• #${story.id}: ${story.name} - not estimated, estimate it to plan it`
+      : `• #${story.id}: ${story.name} (${story.estimate}h) - doesn't fit`);
+    const more = plan.skipped.length > shown.length ? `\n…and ${plan.skipped.length - shown.length} more` : '';
+    text += `\n\n**Left in backlog** (${plan.skipped.length} stories, ${plan.backlog_hours_remaining}h estimated):\n${shown.join('\n')}${more}`;
+  }
+
+  if (!sprint && plan.stories.length > 0) {
+    text += '\n\n**Next step**: Call `plan_sprint` again with `commit: true` (and `sprint_name` or `sprint_id`) to create the sprint and add these stories.';
+  }
+  return text;
+}
+
+export interface SprintList {
+  project_id: number;
+  sprints: (Sprint & { summary: SprintSummary })[];
+}
+
+export function formatSprintList(data: SprintList) {
+  if (data.sprints.length === 0) {
+    return `🗓️ **No Sprints** in project #${data.project_id}\n\nUse \`plan_sprint\` to draft one from the backlog.`;
+  }
+
+  const sprintList = data.sprints
+    .map(({ summary, ...sprint }) => `• #${sprint.id}: ${sprint.name}${sprint.state ? ` [${sprint.state}]` : ''} ${formatSprintDates(sprint)} - ${summary.committed_hours}h committed${sprint.capacity_hours ? ` of ${sprint.capacity_hours}h` : ''}, ${summary.completion}% done`)
+    .join('\n');
+  return `🗓️ **Sprints** (Project #${data.project_id}):\n\n${sprintList}`;
+}
+
+export interface SprintDetails {
+  sprint: Sprint;
+  stories: Story[];
+  summary: SprintSummary;
+}
+
+export function formatSprintDetails(data: SprintDetails, workflow: Workflow) {
+  const { sprint, summary } = data;
+  const capacity = sprint.capacity_hours
+    ? ` of ${sprint.capacity_hours}h capacity (${summary.remaining_capacity_hours}h remaining)`
+    : '';
+  const storyList = data.stories.length > 0
+    ? data.stories.map(story => formatStoryLine(story, workflow)).join('\n')
+    : 'No stories yet';
+
+  return `🗓️ **Sprint #${sprint.id}**: ${sprint.name}${sprint.state ? ` [${sprint.state}]` : ''}\n\n📅 **Dates**: ${formatSprintDates(sprint)}${sprint.goal ? `\n🎯 **Goal**: ${sprint.goal}` : ''}\n⏱️ **Committed**: ${summary.committed_hours}h${capacity}\n📊 **Progress**: ${summary.done_hours}h of ${summary.committed_hours}h done (${summary.completion}%)\n\n**Stories:**\n${storyList}`;
+}
+
+// Reports
+
+export interface ProjectReport {
+  project_id: number;
+  sprint: Sprint | null;
+  report: ReportKind;
+  output: ReportOutput;
+  range: DateRange;
+  // Set for the requested report only
+  burndown?: BurndownPoint[];
+  velocity?: VelocityWeek[];
+  cycle_time?: CycleTimeSummary;
+  // Stories whose status history couldn't be loaded; their dates fall back to updated_at
+  history_unavailable: number;
+}
+
+function formatReportSummary(data: ProjectReport) {
+  if (data.burndown) {
+    const first = data.burndown[0];
+    const last = data.burndown[data.burndown.length - 1];
+    return first ? `**Remaining**: ${last.remaining_hours}h of ${first.remaining_hours}h at the start (ideal today: ${last.ideal_hours}h)` : null;
+  }
+
+  if (data.velocity) {
+    const hours = data.velocity.reduce((sum, week) => sum + week.hours, 0);
+    const average = data.velocity.length > 0 ? Math.round((hours / data.velocity.length) * 10) / 10 : 0;
+    return `**Average**: ${average}h per week over ${data.velocity.length} week(s)`;
+  }
+
+  const summary = data.cycle_time!;
+  return summary.entries.length > 0
+    ? `**Average**: ${summary.average_days} days, median ${summary.median_days}, 85th percentile ${summary.p85_days} (${summary.entries.length} stories)`
+    : null;
+}
+
+export function formatProjectReport(data: ProjectReport) {
+  const titles: Record<ReportKind, string> = {
+    burndown: '📉 **Burndown**',
+    velocity: '🚀 **Velocity**',
+    cycle_time: '⏳ **Cycle Time**',
+  };
+  const scope = data.sprint ? `Sprint #${data.sprint.id} - ${data.sprint.name}` : `Project #${data.project_id}`;
+  const summary = formatReportSummary(data);
+
+  let text = `${titles[data.report]} (${scope}): ${data.range.from} → ${data.range.to}${summary ? `\n${summary}` : ''}\n\n${renderReportTable(reportTable(data.report, data), data.output)}`;
+  if (data.history_unavailable > 0) {
+    text += `\n\n⚠️ Status history couldn't be loaded for ${data.history_unavailable} story(ies); their dates are estimated from when they were last updated.`;
+  }
+  return text;
+}
+
+// Backlog files
+
+export interface BacklogExported {
+  project_id: number;
+  project_name: string;
+  path: string;
+  file_format: BacklogFileFormat;
+  epics: number;
+  stories: number;
+  hours: number;
+}
+
+export function formatBacklogExported(data: BacklogExported) {
+  return `📤 **Backlog Exported**: ${data.project_name} (ID: ${data.project_id})\n📁 **File**: ${data.path} (${data.file_format})\n📊 **Contents**: ${data.stories} stories in ${data.epics} epic(s), ${data.hours}h estimated`;
+}
+
+export interface BacklogImportEpic {
+  name: string;
+  outcome: 'existing' | 'created' | 'would_create' | 'failed';
+  epic_id?: number;
+  error?: string;
+}
+
+export interface BacklogImportRow {
+  line: number;
+  name: string;
+  epic?: string;
+  estimate?: number;
+  // would_create: dry run only; existing and duplicate rows are skipped by name
+  outcome: 'created' | 'queued' | 'would_create' | 'existing' | 'duplicate' | 'invalid' | 'failed';
+  story_id?: number;
+  status?: StateSummary;
+  error?: string;
+}
+
+export interface BacklogImported {
+  project_id: number;
+  path: string;
+  file_format: BacklogFileFormat;
+  dry_run: boolean;
+  epics: BacklogImportEpic[];
+  rows: BacklogImportRow[];
+  // Lines that couldn't be read as a story at all
+  parse_errors: BacklogParseError[];
+}
+
+function formatImportRow(row: BacklogImportRow) {
+  const label = `Line ${row.line}: ${row.name}${row.estimate ? ` (${row.estimate}h)` : ''}${row.epic ? ` → ${row.epic}` : ''}`;
+  switch (row.outcome) {
+    case 'created':
+      return `✅ #${row.story_id} ${label}`;
+    case 'queued':
+      return `🕒 ${label} - queued until SoftyPM is reachable`;
+    case 'would_create':
+      return `➕ ${label}${row.status ? ` [${row.status.name}]` : ''}`;
+    case 'existing':
+      return `⏭️ ${label} - already exists as #${row.story_id}, skipped`;
+    case 'duplicate':
+      return `⏭️ ${label} - repeated in this file, skipped`;
+    case 'invalid':
+    case 'failed':
+      return `❌ ${label} - ${row.error}`;
+  }
+}
+
+function formatImportEpic(epic: BacklogImportEpic) {
+  switch (epic.outcome) {
+    case 'existing':
+      return `${epic.name} (#${epic.epic_id})`;
+    case 'created':
+      return `${epic.name} (created #${epic.epic_id})`;
+    case 'would_create':
+      return `${epic.name} (new)`;
+    case 'failed':
+      return `${epic.name} (failed: ${epic.error})`;
+  }
+}
+
+export function formatBacklogImported(data: BacklogImported) {
+  const count = (...outcomes: BacklogImportRow['outcome'][]) => data.rows.filter(row => outcomes.includes(row.outcome)).length;
+  const skipped = count('existing', 'duplicate');
+  const errors = count('invalid', 'failed') + data.parse_errors.length;
+
+  const heading = data.dry_run
+    ? `🔍 **Import Preview** (${data.path} → Project #${data.project_id}): ${count('would_create')} to create, ${skipped} skipped, ${errors} error(s)`
+    : `${errors > 0 ? '⚠️' : '✅'} **Backlog Imported** (${data.path} → Project #${data.project_id}): ${count('created', 'queued')} created, ${skipped} skipped, ${errors} error(s)`;
+
+  let text = heading;
+  if (data.epics.length > 0) {
+    text += `\n📁 **Epics**: ${data.epics.map(formatImportEpic).join(', ')}`;
+  }
+  if (data.rows.length === 0 && data.parse_errors.length === 0) {
+    return text + `\n\nNo stories found in this ${data.file_format} file. Markdown imports read list items (\`- [ ] Story name (3h)\`) grouped under epic headings.`;
+  }
+
+  text += `\n\n${data.rows.map(formatImportRow).join('\n')}`;
+  if (data.parse_errors.length > 0) {
+    text += `\n${data.parse_errors.map(error => `❌ ${error.line > 0 ? `Line ${error.line}` : 'File'}: ${error.error}`).join('\n')}`;
+  }
+
+  if (data.dry_run && count('would_create') > 0) {
+    text += '\n\n**Next step**: Call `import_backlog` again with `dry_run: false` to create these stories.';
+  } else if (!data.dry_run && count('failed') > 0) {
+    text += '\n\n**Next step**: Call `import_backlog` again with the same file. Stories that were already created will be skipped.';
+  }
+  return text;
+}
+
+// Git
+
+function formatCommitLine(commit: GitCommit) {
+  return `- \`${commit.short_sha}\` ${commit.subject} (${commit.author})`;
+}
+
+// The comment that attaches commits to a story; link_commits looks for these SHAs to skip repeats
+export function formatCommitComment(commits: GitCommit[]) {
+  return `🔗 **Commits**:\n${commits.map(formatCommitLine).join('\n')}`;
+}
+
+export type GitContext = {
+  outcome: 'no_repository';
+  workspace_root: string;
+} | {
+  outcome: 'found';
+  workspace_root: string;
+  branch: string | null;
+  base: string | null;
+  on_base: boolean;
+  // From the branch name, else the story the branch's commits mention most
+  story_id: number | null;
+  story_source: 'branch' | 'commits' | null;
+  story?: Story;
+  status?: StateSummary;
+  story_error?: string;
+  commits: GitCommit[];
+  // Set when start moved the story into active work
+  transition?: StatusTransition;
+};
+
+export function formatGitContext(data: GitContext, workflow?: Workflow) {
+  if (data.outcome === 'no_repository') {
+    return `📂 ${data.workspace_root} is not a git repository, so there is no branch or commit to link to a story.`;
+  }
+
+  let text = `🌿 **Branch**: ${data.branch || 'detached HEAD'}${data.base ? ` (base: ${data.base})` : ''}`;
+  if (data.story) {
+    const source = data.story_source === 'branch' ? 'branch name' : 'commit messages';
+    text += `\n📌 **Story** (from ${source}): #${data.story.id} - ${data.story.name}${data.status ? ` [${data.status.name}]` : ''}`;
+  } else if (data.story_id) {
+    text += `\n⚠️ The branch refers to story #${data.story_id}, but it couldn't be loaded: ${data.story_error}`;
+  } else {
+    text += '\n📌 **Story**: none found. Name branches like `story-123-card-form` or mention `#123` in commit messages.';
+  }
+
+  if (data.commits.length > 0) {
+    text += `\n\n**Commits** (${data.on_base ? 'recent' : 'on this branch'}):\n${data.commits.map(commit => `${formatCommitLine(commit)}${commit.story_ids.length > 0 ? ` → ${commit.story_ids.map(id => `#${id}`).join(', ')}` : ''}`).join('\n')}`;
+  }
+
+  if (data.transition && workflow) {
+    text += `\n\n${formatStatusTransition(data.transition, workflow)}`;
+  } else if (data.story && data.status?.category === 'backlog') {
+    text += `\n\n**Suggestion**: Start #${data.story.id} with \`update_story_status\`, or call \`get_git_context\` with \`start: true\`.`;
+  }
+  return text;
+}
+
+export interface CommitsLinked {
+  outcome: 'linked' | 'already_linked' | 'none_found';
+  story: Story;
+  commits: GitCommit[];
+  // Commits skipped because an earlier comment on the story already lists them
+  already_linked: number;
+}
+
+export function formatCommitsLinked(data: CommitsLinked) {
+  const story = `#${data.story.id} - ${data.story.name}`;
+  switch (data.outcome) {
+    case 'none_found':
+      return `🔍 No commits found for ${story}. Commits are matched by the branch name or by mentioning #${data.story.id} in the message; pass \`shas\` to link specific ones.`;
+    case 'already_linked':
+      return `⏭️ All ${data.already_linked} commit(s) are already linked to ${story}.`;
+    case 'linked':
+      return `🔗 **Commits Linked** to ${story}: ${data.commits.length} linked${data.already_linked > 0 ? `, ${data.already_linked} already linked` : ''}\n\n${data.commits.map(formatCommitLine).join('\n')}`;
+  }
+}
+
+// Profiles and sync
+
+export type ProfileStatus = {
+  // Only the account from SOFTYPM_BASE_URL / SOFTYPM_API_TOKEN exists
+  outcome: 'single';
+} | {
+  outcome: 'listed';
+  path?: string;
+  profiles: { name: string; base_url: string; description?: string; active: boolean }[];
+} | {
+  outcome: 'switched';
+  profile: string;
+  base_url: string;
+  reachable: boolean;
+  project_id: number | null;
+  context_source: ProjectContextSource | null;
+};
+
+export function formatProfileStatus(data: ProfileStatus) {
+  if (data.outcome === 'single') {
+    return `👤 Only one SoftyPM account is configured (from SOFTYPM_BASE_URL and SOFTYPM_API_TOKEN).\n\nTo work with several accounts or instances, create a profiles file at SOFTYPM_PROFILES_FILE or ~/.softypm/profiles.json.`;
+  }
+
+  if (data.outcome === 'listed') {
+    const list = data.profiles
+      .map(profile => `• **${profile.name}**: ${profile.base_url}${profile.description ? ` - ${profile.description}` : ''}${profile.active ? ' ← active' : ''}`)
+      .join('\n');
+    return `👤 **Profiles** (${data.path}):\n\n${list}\n\nUse \`switch_profile\` with a profile name to change accounts.`;
+  }
+
+  const context = data.project_id && data.context_source
+    ? `Project #${data.project_id} (from ${contextSourceLabels[data.context_source]})`
+    : 'No project context set. Use `set_project_context` or `find_project` to choose one.';
+  return `👤 **Switched to profile ${data.profile}**\n\n🌐 **Instance**: ${data.base_url}\n${data.reachable ? '🟢 Connected' : '⚠️ SoftyPM did not respond to a health check; requests may fail or use cached data'}\n🎯 **Context**: ${context}`;
+}
+
+export interface SyncStatus {
+  offline_since: string | null;
+  discarded?: string;
+  replay?: SyncReport;
+  pending: PendingWrite[];
+  // Cached stories for the current project, when there is one
+  cache?: { project_id: number; stories: number | null; cached_at: string | null };
+}
+
+function formatPendingWrite(write: PendingWrite): string {
+  const summary = write.type === 'create_story'
+    ? `Create story #${write.temp_id} "${write.data.name}"`
+    : `Move story #${write.story_id} to status ${write.status}${write.comment ? ' and comment on it' : ''}`;
+  const details = [
+    `queued ${formatTimestamp(write.queued_at)}`,
+    write.attempts > 0 ? `${write.attempts} attempt(s)` : null,
+    write.conflict ? `⚠️ conflict: ${write.conflict}` : write.last_error ? `last error: ${write.last_error}` : null,
+  ].filter(Boolean);
+
+  return `• \`${write.id}\` ${summary} (${details.join(', ')})`;
+}
+
+export function formatSyncStatus(data: SyncStatus) {
+  const lines: string[] = [data.offline_since
+    ? `📴 **SoftyPM unreachable** since ${formatTimestamp(data.offline_since)}`
+    : '🟢 **Online** (last request reached SoftyPM)'];
+
+  if (data.discarded) {
+    lines.push(`🗑️ Discarded queued change \`${data.discarded}\``);
+  }
+
+  if (data.replay) {
+    const report = data.replay;
+    lines.push(
+      `**🔄 Replay**: ${report.applied.length} applied, ${report.conflicts.length} conflict(s)${report.offline ? ', stopped because SoftyPM is still unreachable' : ''}`,
+      ...report.applied.map(item => `• ✅ ${item}`),
+      ...report.conflicts.map(item => `• ⚠️ ${item}`)
+    );
+  }
+
+  const conflicts = data.pending.filter(write => write.conflict);
+  lines.push(data.pending.length === 0
+    ? '\n✅ No queued changes.'
+    : `\n**📥 Queued Changes (${data.pending.length}):**\n${data.pending.map(formatPendingWrite).join('\n')}`);
+
+  if (conflicts.length > 0) {
+    lines.push(`\n${conflicts.length} change(s) conflict with edits made in SoftyPM and won't be replayed. Check the story, then discard the change with \`sync_status\` and \`discard\`, re-applying it if still wanted.`);
+  } else if (data.pending.length > 0) {
+    lines.push('\nQueued changes replay automatically when SoftyPM is reachable, or now with `replay: true`.');
+  }
+
+  if (data.cache) {
+    const { project_id: projectId, stories, cached_at: cachedAt } = data.cache;
+    lines.push(`\n💾 **Cache**: ${cachedAt ? `${stories} stories for project ${projectId}, updated ${formatTimestamp(cachedAt)}` : `nothing cached for project ${projectId} yet`}`);
+  }
+
+  return lines.join('\n');
+}
+
+export interface DryRun {
+  outcome: 'dry_run';
+  tool: string;
+  arguments: Record<string, unknown>;
+  project_id: number | null;
+  policy_path?: string;
+}
+
+export function formatDryRun(data: DryRun) {
+  const args = Object.entries(data.arguments);
+  const lines = [
+    `🧪 **Dry run**: \`${data.tool}\` was not sent to SoftyPM.`,
+    '',
+    args.length > 0
+      ? `It would have run with:\n${args.map(([name, value]) => `- ${name}: ${JSON.stringify(value)}`).join('\n')}`
+      : 'It would have run without arguments.',
+  ];
+  if (data.project_id) {
+    lines.push(`\n**Project**: #${data.project_id}`);
+  }
+  lines.push(`\nDry-run mode is on${data.policy_path ? ` (${data.policy_path})` : ''}, so changes are only described.`);
+  return lines.join('\n');
+}
+
+// Status shown with every response: the active profile and offline state
+export interface StatusNotices {
+  profile?: { name: string; host: string };
+  offline_since?: string;
+  queued_changes: number;
+  // Set when the policy stops changes from reaching SoftyPM
+  mode?: 'read_only' | 'dry_run';
+}
+
+export function formatStatusNotices(notices: StatusNotices): string | null {
+  const lines: string[] = [];
+
+  if (notices.profile) {
+    lines.push(`👤 **Profile**: ${notices.profile.name} (${notices.profile.host})`);
+  }
+
+  if (notices.mode === 'read_only') {
+    lines.push('🔒 **Read-only**: the policy doesn\'t allow changes to SoftyPM.');
+  } else if (notices.mode === 'dry_run') {
+    lines.push('🧪 **Dry run**: changes are described, not made.');
+  }
+
+  const pending = notices.queued_changes;
+  if (notices.offline_since) {
+    lines.push(`📴 **Offline** since ${formatTimestamp(notices.offline_since)} - showing cached data${pending > 0 ? `, ${pending} change(s) queued` : ''}. Use \`sync_status\` for details.`);
+  } else if (pending > 0) {
+    lines.push(`🔄 ${pending} queued change(s) not yet synced. Use \`sync_status\` for details.`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+// Render a tool's output in the requested format, with the status notices as a footer or as fields
+export function renderToolOutput(tool: string, output: ToolOutput, format: OutputFormat, notices: StatusNotices) {
+  if (format === 'json') {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ tool, result: output.data, status: notices }, null, 2) }],
+    };
+  }
+
+  const footer = formatStatusNotices(notices);
+  return {
+    content: [
+      { type: 'text', text: output.markdown },
+      ...(footer ? [{ type: 'text', text: footer }] : []),
+    ],
+  };
+}
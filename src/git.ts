@@ -0,0 +1,152 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Commits read when the branch has no base to compare against
+export const RECENT_COMMIT_LIMIT = 50;
+
+// Git is local and fast; anything slower is a hung process, not a big repo
+const GIT_TIMEOUT_MS = 10000;
+
+export interface GitCommit {
+  sha: string;
+  short_sha: string;
+  subject: string;
+  author: string;
+  date: string;
+  // Stories the commit message refers to
+  story_ids: number[];
+}
+
+export interface BranchState {
+  branch: string | null;
+  base: string | null;
+  // On the base branch or a detached HEAD, where the commits are just the most recent ones
+  on_base: boolean;
+  commits: GitCommit[];
+}
+
+// "#123", "story-123", "story_123", "story/123" or "stories/123"
+const STORY_REFERENCE = /(?:^|[^\w&])#(\d+)\b|\bstor(?:y|ies)[-_/ ]?#?(\d+)\b/gi;
+
+export function storyIdsIn(text: string): number[] {
+  const ids = Array.from(text.matchAll(STORY_REFERENCE), match => Number(match[1] || match[2]));
+  return Array.from(new Set(ids.filter(id => id > 0)));
+}
+
+/**
+ * The story a branch is for: an explicit reference ("story-123", "#123"), else a segment that starts
+ * with the ID, as in "feature/123-card-form".
+ */
+export function branchStoryId(branch: string): number | null {
+  const [referenced] = storyIdsIn(branch);
+  if (referenced) {
+    return referenced;
+  }
+
+  const segment = branch.split('/').find(part => /^\d+[-_]/.test(part));
+  return segment ? parseInt(segment) : null;
+}
+
+// Fields and records are split on control characters that can't appear in a commit subject
+const LOG_FORMAT = '%H%x1f%h%x1f%s%x1f%an%x1f%aI%x1e';
+
+function parseLog(output: string): GitCommit[] {
+  return output
+    .split('\x1e')
+    .map(record => record.trim())
+    .filter(Boolean)
+    .map(record => {
+      const [sha, shortSha, subject, author, date] = record.split('\x1f');
+      return { sha, short_sha: shortSha, subject, author, date, story_ids: storyIdsIn(subject) };
+    });
+}
+
+/**
+ * Read-only access to the git repository the server runs in. Every method resolves to null or an
+ * empty list outside a repository, or when git isn't installed.
+ */
+export class GitRepo {
+  constructor(private cwd: string) {}
+
+  private async git(...args: string[]): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd: this.cwd, timeout: GIT_TIMEOUT_MS });
+      return stdout.trim();
+    } catch {
+      return null;
+    }
+  }
+
+  async isRepository(): Promise<boolean> {
+    return (await this.git('rev-parse', '--is-inside-work-tree')) === 'true';
+  }
+
+  // Null on a detached HEAD
+  async currentBranch(): Promise<string | null> {
+    const branch = await this.git('rev-parse', '--abbrev-ref', 'HEAD');
+    return branch && branch !== 'HEAD' ? branch : null;
+  }
+
+  // The branch work is merged into: origin's default branch, else a local main or master
+  async baseBranch(): Promise<string | null> {
+    const remoteHead = await this.git('symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD');
+    if (remoteHead) {
+      return remoteHead;
+    }
+
+    for (const candidate of ['main', 'master']) {
+      if (await this.git('rev-parse', '--verify', '--quiet', `refs/heads/${candidate}`)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The current branch and its commits that aren't on the base branch, newest first. On the base
+   * branch itself, a detached HEAD or without a base, the most recent commits instead. Merge commits
+   * are left out. Null outside a repository.
+   */
+  async branchState(): Promise<BranchState | null> {
+    if (!await this.isRepository()) {
+      return null;
+    }
+
+    const branch = await this.currentBranch();
+    const base = await this.baseBranch();
+    const onBase = !branch || !base || base === branch || base.endsWith(`/${branch}`);
+    const range = onBase ? ['-n', String(RECENT_COMMIT_LIMIT), 'HEAD'] : [`${base}..HEAD`];
+    const output = await this.git('log', '--no-merges', `--format=${LOG_FORMAT}`, ...range);
+    return { branch, base, on_base: onBase, commits: output ? parseLog(output) : [] };
+  }
+
+  // Null for anything git can't resolve to a commit
+  async commit(ref: string): Promise<GitCommit | null> {
+    const output = await this.git('log', '-1', `--format=${LOG_FORMAT}`, ref, '--');
+    return output ? parseLog(output)[0] || null : null;
+  }
+}
+
+// The story a branch is for: named by the branch, else the one its own commits mention most
+export function branchStory(state: BranchState): { story_id: number; source: 'branch' | 'commits' } | null {
+  const named = state.branch ? branchStoryId(state.branch) : null;
+  if (named) {
+    return { story_id: named, source: 'branch' };
+  }
+  if (state.on_base) {
+    return null;
+  }
+
+  const counts = new Map<number, number>();
+  state.commits.flatMap(commit => commit.story_ids).forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+  const [top] = Array.from(counts).sort((a, b) => b[1] - a[1]);
+  return top ? { story_id: top[0], source: 'commits' } : null;
+}
+
+// Every commit on the story's own branch; elsewhere, the commits that mention the story
+export function commitsForStory(state: BranchState, storyId: number): GitCommit[] {
+  const ownBranch = !state.on_base && state.branch !== null && branchStoryId(state.branch) === storyId;
+  return ownBranch ? state.commits : state.commits.filter(commit => commit.story_ids.includes(storyId));
+}
@@ -0,0 +1,204 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { readJsonFile } from './local-state.js';
+import { DEFAULT_BASE_URL, implicitProfiles } from './profiles.js';
+import { SoftYPMServer } from './server.js';
+import { SoftYPMClient } from './softypm-client.js';
+
+export const DEFAULT_HTTP_PORT = 3333;
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+export interface HttpServerOptions {
+  port?: number;
+  host?: string;
+  baseURL?: string;
+  // Maps access tokens to SoftyPM API tokens; without one, clients send their own SoftyPM API token
+  tokensFile?: string;
+}
+
+// Entry in the tokens file, keyed by the access token clients send as their bearer token
+export interface TeamMember {
+  api_token: string;
+  name?: string;
+}
+
+interface Caller {
+  apiToken: string;
+  // Stable, non-secret identifier for the caller's local state
+  userKey: string;
+  name?: string;
+}
+
+interface Session {
+  transport: SSEServerTransport;
+  server: SoftYPMServer;
+  userKey: string;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+function bearerToken(req: IncomingMessage): string | null {
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Serve MCP over HTTP with Server-Sent Events so a team can share one deployment.
+ * Every SSE connection gets its own SoftYPMServer, bound to the caller's SoftyPM API token, with project
+ * context, timers and the offline cache kept per user.
+ *
+ *   GET  /sse                    open a session (bearer token required)
+ *   POST /messages?sessionId=... send a message to that session (same bearer token)
+ *   GET  /health                 SoftyPM reachability and open session count
+ */
+export class SoftYPMHttpServer {
+  private httpServer: HttpServer;
+  private sessions = new Map<string, Session>();
+  private options: HttpServerOptions;
+
+  constructor(options: HttpServerOptions = {}) {
+    this.options = options;
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('HTTP request failed:', error);
+        if (!res.headersSent) {
+          sendJson(res, 500, { error: 'Internal server error' });
+        }
+      });
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async listen(): Promise<{ host: string; port: number }> {
+    const host = this.options.host || DEFAULT_HTTP_HOST;
+    const port = this.options.port ?? DEFAULT_HTTP_PORT;
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(port, host, resolve);
+    });
+
+    const address = this.httpServer.address();
+    return { host, port: typeof address === 'object' && address ? address.port : port };
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([...this.sessions.values()].map(session => session.server.close()));
+    this.sessions.clear();
+    this.httpServer.closeAllConnections();
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  // With a tokens file only listed access tokens are accepted; otherwise the bearer token is the SoftyPM API token
+  private authenticate(req: IncomingMessage): Caller | null {
+    const token = bearerToken(req);
+    if (!token) {
+      return null;
+    }
+
+    if (!this.options.tokensFile) {
+      return { apiToken: token, userKey: hashToken(token) };
+    }
+
+    // Re-read on every connection so tokens can be added or revoked without a restart
+    const members = readJsonFile<Record<string, TeamMember>>(this.options.tokensFile, {});
+    const accessToken = Object.keys(members).find(candidate => tokensMatch(candidate, token));
+    const member = accessToken ? members[accessToken] : undefined;
+    if (!member?.api_token) {
+      return null;
+    }
+
+    return { apiToken: member.api_token, userKey: hashToken(token), name: member.name };
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      return this.health(res);
+    }
+
+    if (url.pathname !== '/sse' && url.pathname !== '/messages') {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    const caller = this.authenticate(req);
+    if (!caller) {
+      return sendJson(res, 401, { error: 'Missing or invalid bearer token' }, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      return this.openSession(caller, res);
+    }
+
+    if (req.method === 'POST' && url.pathname === '/messages') {
+      const session = this.sessions.get(url.searchParams.get('sessionId') || '');
+      if (!session) {
+        return sendJson(res, 404, { error: 'Unknown session' });
+      }
+      // Sessions are bound to the token that opened them
+      if (session.userKey !== caller.userKey) {
+        return sendJson(res, 403, { error: 'Session belongs to another user' });
+      }
+      return session.transport.handlePostMessage(req, res);
+    }
+
+    sendJson(res, 405, { error: 'Method not allowed' });
+  }
+
+  private async openSession(caller: Caller, res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    const server = new SoftYPMServer({
+      client: {
+        apiToken: caller.apiToken,
+        ...(this.options.baseURL ? { baseURL: this.options.baseURL } : {}),
+      },
+      userKey: caller.userKey,
+      // Each caller brings their own token, so the operator's profiles file doesn't apply
+      profiles: implicitProfiles(),
+    });
+
+    this.sessions.set(transport.sessionId, { transport, server, userKey: caller.userKey });
+    await server.connect(transport);
+
+    // connect() installs the server's own close handler, so chain ours after it
+    const onclose = transport.onclose;
+    transport.onclose = () => {
+      onclose?.();
+      this.sessions.delete(transport.sessionId);
+    };
+
+    console.error(`SSE session ${transport.sessionId} opened${caller.name ? ` for ${caller.name}` : ''}`);
+  }
+
+  private async health(res: ServerResponse): Promise<void> {
+    const client = new SoftYPMClient({
+      baseURL: this.options.baseURL || process.env.SOFTYPM_BASE_URL || DEFAULT_BASE_URL,
+      apiToken: process.env.SOFTYPM_API_TOKEN || '',
+      retry: { retries: 0 },
+    });
+    const reachable = await client.healthCheck();
+
+    sendJson(res, reachable ? 200 : 503, {
+      status: reachable ? 'ok' : 'degraded',
+      softypm: reachable,
+      sessions: this.sessions.size,
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+// Local state lives in ~/.softypm unless SOFTYPM_STATE_DIR points elsewhere
+export function getStateDir(): string {
+  return process.env.SOFTYPM_STATE_DIR || join(homedir(), '.softypm');
+}
+
+export function getStatePath(fileName: string): string {
+  return join(getStateDir(), fileName);
+}
+
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!existsSync(filePath)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8')) as T;
+  } catch (error) {
+    console.error(`Ignoring unreadable state file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    return fallback;
+  }
+}
+
+// Write via a temp file and rename so a crash never leaves a half-written file behind
+export function writeJsonFile(filePath: string, data: unknown): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(data, null, 2) + '\n', 'utf8');
+  renameSync(tempPath, filePath);
+}
+
+export function readStateFile<T>(fileName: string, fallback: T): T {
+  return readJsonFile(getStatePath(fileName), fallback);
+}
+
+export function writeStateFile(fileName: string, data: unknown): void {
+  writeJsonFile(getStatePath(fileName), data);
+}
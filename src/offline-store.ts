@@ -0,0 +1,209 @@
+import { randomUUID } from 'crypto';
+import { readStateFile, writeStateFile } from './local-state.js';
+import type { CreateStoryData, Project, Story } from './softypm-client.js';
+
+interface CacheEntry<T> {
+  data: T;
+  cached_at: string;
+}
+
+interface CacheState {
+  projects: Record<string, CacheEntry<Project>>;
+  project_stories: Record<string, CacheEntry<Story[]>>;
+  stories: Record<string, CacheEntry<Story>>;
+}
+
+interface PendingWriteBase {
+  id: string;
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+  // Set when replay found the server state no longer matches; the write is held until resolved
+  conflict?: string;
+}
+
+export interface PendingCreateStory extends PendingWriteBase {
+  type: 'create_story';
+  // Negative placeholder ID handed out while offline, mapped to the real ID on replay
+  temp_id: number;
+  data: CreateStoryData;
+}
+
+export interface PendingStatusUpdate extends PendingWriteBase {
+  type: 'update_story_status';
+  story_id: number;
+  status: number;
+  // Status the story had when the change was made, used to detect conflicting edits
+  expected_status: number | null;
+  // The change's notes and commits, posted as a comment once the status is applied
+  comment?: string;
+}
+
+export type PendingWrite = PendingCreateStory | PendingStatusUpdate;
+
+const emptyCache = (): CacheState => ({ projects: {}, project_stories: {}, stories: {} });
+
+/**
+ * Local read cache and durable write queue used while SoftyPM is unreachable.
+ * Each namespace (one per SoftyPM account) gets its own files so cached data never crosses accounts.
+ */
+export class OfflineStore {
+  private cacheFile: string;
+  private queueFile: string;
+
+  constructor(namespace: string = 'default') {
+    const safeNamespace = namespace.replace(/[^a-zA-Z0-9_.-]/g, '_');
+    this.cacheFile = `offline/${safeNamespace}/cache.json`;
+    this.queueFile = `offline/${safeNamespace}/pending-writes.json`;
+  }
+
+  private readCache(): CacheState {
+    return { ...emptyCache(), ...readStateFile<Partial<CacheState>>(this.cacheFile, {}) };
+  }
+
+  private entry<T>(data: T): CacheEntry<T> {
+    return { data, cached_at: new Date().toISOString() };
+  }
+
+  cacheProject(project: Project): void {
+    const cache = this.readCache();
+    cache.projects[project.id] = this.entry(project);
+    writeStateFile(this.cacheFile, cache);
+  }
+
+  getProject(projectId: number): CacheEntry<Project> | null {
+    return this.readCache().projects[projectId] || null;
+  }
+
+  // Caching a project's stories also caches each story, so get_story works offline
+  cacheProjectStories(projectId: number, stories: Story[]): void {
+    const cache = this.readCache();
+
+    // Stories created offline aren't on the server yet, so keep their placeholders in the list
+    const placeholders = Object.values(cache.stories)
+      .map(entry => entry.data)
+      .filter(story => story.id < 0 && story.project_id === projectId);
+
+    cache.project_stories[projectId] = this.entry([...stories, ...placeholders]);
+    stories.forEach(story => {
+      cache.stories[story.id] = this.entry(story);
+    });
+    writeStateFile(this.cacheFile, cache);
+  }
+
+  getProjectStories(projectId: number): CacheEntry<Story[]> | null {
+    return this.readCache().project_stories[projectId] || null;
+  }
+
+  cacheStory(story: Story): void {
+    const cache = this.readCache();
+    cache.stories[story.id] = this.entry(story);
+
+    // Keep the project list consistent with the single-story view
+    const projectStories = cache.project_stories[story.project_id];
+    if (projectStories) {
+      const index = projectStories.data.findIndex(s => s.id === story.id);
+      if (index >= 0) {
+        projectStories.data[index] = story;
+      } else {
+        projectStories.data.push(story);
+      }
+    }
+
+    writeStateFile(this.cacheFile, cache);
+  }
+
+  getStory(storyId: number): CacheEntry<Story> | null {
+    return this.readCache().stories[storyId] || null;
+  }
+
+  forgetStory(storyId: number, projectId: number): void {
+    const cache = this.readCache();
+    delete cache.stories[storyId];
+
+    const projectStories = cache.project_stories[projectId];
+    if (projectStories) {
+      projectStories.data = projectStories.data.filter(story => story.id !== storyId);
+    }
+
+    writeStateFile(this.cacheFile, cache);
+  }
+
+  pendingWrites(): PendingWrite[] {
+    return readStateFile<PendingWrite[]>(this.queueFile, []);
+  }
+
+  private saveQueue(queue: PendingWrite[]): void {
+    writeStateFile(this.queueFile, queue);
+  }
+
+  queueCreateStory(data: CreateStoryData): Story {
+    const queue = this.pendingWrites();
+    const cachedIds = Object.keys(this.readCache().stories).map(Number);
+    const queuedIds = queue.map(write => write.type === 'create_story' ? write.temp_id : 0);
+    const tempId = Math.min(0, ...cachedIds, ...queuedIds) - 1;
+
+    queue.push({
+      id: randomUUID(),
+      type: 'create_story',
+      queued_at: new Date().toISOString(),
+      attempts: 0,
+      temp_id: tempId,
+      data,
+    });
+    this.saveQueue(queue);
+
+    const placeholder: Story = {
+      ...data,
+      id: tempId,
+      status: data.status ?? 1,
+      pending_sync: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    this.cacheStory(placeholder);
+
+    return placeholder;
+  }
+
+  queueStatusUpdate(storyId: number, status: number, expectedStatus: number | null, comment?: string): void {
+    const queue = this.pendingWrites();
+    queue.push({
+      id: randomUUID(),
+      type: 'update_story_status',
+      queued_at: new Date().toISOString(),
+      attempts: 0,
+      story_id: storyId,
+      status,
+      expected_status: expectedStatus,
+      ...(comment ? { comment } : {}),
+    });
+    this.saveQueue(queue);
+
+    // Optimistically reflect the change in cached reads
+    const cached = this.getStory(storyId);
+    if (cached) {
+      this.cacheStory({ ...cached.data, status, pending_sync: true, updated_at: new Date().toISOString() });
+    }
+  }
+
+  updateWrite(id: string, changes: Partial<PendingWrite>): void {
+    const queue = this.pendingWrites().map(write => write.id === id ? { ...write, ...changes } as PendingWrite : write);
+    this.saveQueue(queue);
+  }
+
+  removeWrite(id: string): boolean {
+    const queue = this.pendingWrites();
+    const remaining = queue.filter(write => write.id !== id);
+    this.saveQueue(remaining);
+    return remaining.length !== queue.length;
+  }
+
+  // Once a queued story exists on the server, point later queued writes at its real ID
+  resolveTempId(tempId: number, realId: number): void {
+    const queue = this.pendingWrites().map(write =>
+      write.type === 'update_story_status' && write.story_id === tempId ? { ...write, story_id: realId } : write
+    );
+    this.saveQueue(queue);
+  }
+}
@@ -0,0 +1,114 @@
+import { existsSync } from 'fs';
+import { z } from 'zod';
+import { getStatePath, readJsonFile } from './local-state.js';
+
+export const POLICY_FILE = 'policy.json';
+
+/**
+ * What connected agents may do. Read from the state directory or SOFTYPM_POLICY_FILE, never from the
+ * repo's .softypm.json, so an agent working in the repo can't loosen its own policy.
+ */
+export const PolicySchema = z.object({
+  // Hide and refuse every tool that changes SoftyPM
+  read_only: z.boolean().default(false),
+  // Describe changes instead of making them
+  dry_run: z.boolean().default(false),
+  // When set, only these tools can be used
+  allowed_tools: z.array(z.string()).optional(),
+  denied_tools: z.array(z.string()).default([]),
+  // When set, set_project_context and project_id arguments are limited to these projects
+  allowed_project_ids: z.array(z.number().int().positive()).optional(),
+}).strict();
+
+export type Policy = z.infer<typeof PolicySchema> & {
+  path?: string;
+};
+
+// Tools that change SoftyPM (or the local time tracking behind it) whenever they run
+export const WRITE_TOOLS = new Set([
+  'create_story',
+  'create_stories',
+  'split_story',
+  'update_story_status',
+  'update_story',
+  'move_story_to_epic',
+  'archive_story',
+  'start_timer',
+  'stop_timer',
+  'log_time',
+  'add_story_comment',
+  'create_epic',
+  'link_commits',
+  'add_dependency',
+  'remove_dependency',
+  'undo_last_change',
+]);
+
+// Tools that only write when asked to, and the arguments that make them preview instead
+const OPTIONAL_WRITES: Record<string, { writes: (args: Record<string, unknown>) => boolean; preview: Record<string, unknown> }> = {
+  get_git_context: { writes: args => args.start === true, preview: { start: false } },
+  import_backlog: { writes: args => args.dry_run === false, preview: { dry_run: true } },
+  plan_sprint: { writes: args => args.commit === true, preview: { commit: false } },
+  sync_status: { writes: args => args.replay === true, preview: { replay: false } },
+};
+
+export function isWrite(tool: string, args: Record<string, unknown>): boolean {
+  return WRITE_TOOLS.has(tool) || !!OPTIONAL_WRITES[tool]?.writes(args);
+}
+
+// The arguments for a preview of the same call, for tools that have one
+export function previewArguments(tool: string, args: Record<string, unknown>): Record<string, unknown> | null {
+  const optional = OPTIONAL_WRITES[tool];
+  return optional ? { ...args, ...optional.preview } : null;
+}
+
+// Why a tool can't be used at all, whatever its arguments; such tools are also left out of the tool list
+export function toolDisabledReason(policy: Policy, tool: string): string | null {
+  if (policy.allowed_tools && !policy.allowed_tools.includes(tool)) {
+    return 'it is not in allowed_tools';
+  }
+  if (policy.denied_tools.includes(tool)) {
+    return 'it is in denied_tools';
+  }
+  if (policy.read_only && WRITE_TOOLS.has(tool)) {
+    return 'the server is read-only';
+  }
+  return null;
+}
+
+export function isProjectAllowed(policy: Policy, projectId: number): boolean {
+  return !policy.allowed_project_ids || policy.allowed_project_ids.includes(projectId);
+}
+
+const isSet = (value: string | undefined) => value === '1' || value?.toLowerCase() === 'true';
+
+// SOFTYPM_POLICY_FILE, or policy.json in the state directory
+export function getPolicyPath(): string {
+  return process.env.SOFTYPM_POLICY_FILE || getStatePath(POLICY_FILE);
+}
+
+/**
+ * Load the policy file, if any. SOFTYPM_READ_ONLY and SOFTYPM_DRY_RUN can switch those modes on for
+ * one session but never off, so the environment can only make a policy stricter.
+ */
+export function loadPolicy(): Policy {
+  const path = getPolicyPath();
+  let policy: Policy = PolicySchema.parse({});
+
+  if (existsSync(path)) {
+    const parsed = PolicySchema.safeParse(readJsonFile<unknown>(path, null));
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid policy file ${path}: ${issues}`);
+    }
+    policy = { ...parsed.data, path };
+  } else if (process.env.SOFTYPM_POLICY_FILE) {
+    throw new Error(`Policy file not found: ${path}`);
+  }
+
+  return {
+    ...policy,
+    read_only: policy.read_only || isSet(process.env.SOFTYPM_READ_ONLY),
+    dry_run: policy.dry_run || isSet(process.env.SOFTYPM_DRY_RUN),
+  };
+}
@@ -0,0 +1,156 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { z } from 'zod';
+import { getStatePath, readJsonFile, readStateFile, writeStateFile } from './local-state.js';
+import { readRepoConfig } from './project-context.js';
+
+export const PROFILES_FILE = 'profiles.json';
+const ACTIVE_PROFILE_STATE_FILE = 'active-profiles.json';
+
+// Name of the implicit profile built from SOFTYPM_BASE_URL / SOFTYPM_API_TOKEN when no profiles file exists
+export const DEFAULT_PROFILE = 'default';
+
+export const DEFAULT_BASE_URL = 'https://softypm.com/api';
+
+/**
+ * A profile is one SoftyPM account on one instance. The token comes from exactly one source so it can
+ * stay out of the profiles file: an environment variable, a file, or (least preferred) inline.
+ */
+export const ProfileSchema = z.object({
+  base_url: z.string().url(),
+  token: z.string().optional(),
+  token_env: z.string().optional(),
+  token_file: z.string().optional(),
+  default_project_id: z.number().int().positive().optional(),
+  description: z.string().optional(),
+}).refine(
+  profile => [profile.token, profile.token_env, profile.token_file].filter(Boolean).length === 1,
+  { message: 'Set exactly one of token, token_env or token_file' }
+);
+
+export const ProfilesFileSchema = z.object({
+  default_profile: z.string().optional(),
+  profiles: z.record(z.string(), ProfileSchema).refine(
+    profiles => Object.keys(profiles).length > 0,
+    { message: 'Define at least one profile' }
+  ),
+});
+
+export type Profile = z.infer<typeof ProfileSchema>;
+export type ProfilesFile = z.infer<typeof ProfilesFileSchema>;
+
+export interface ProfileConfig extends ProfilesFile {
+  // False for the implicit single profile built from the environment
+  configured: boolean;
+  path?: string;
+}
+
+export type ProfileSource = 'env' | 'state' | 'repo' | 'file';
+
+export interface ActiveProfile {
+  name: string;
+  source: ProfileSource;
+}
+
+// SOFTYPM_PROFILES_FILE, or profiles.json in the state directory
+export function getProfilesPath(): string {
+  return process.env.SOFTYPM_PROFILES_FILE || getStatePath(PROFILES_FILE);
+}
+
+export function envProfile(): Profile {
+  return {
+    base_url: process.env.SOFTYPM_BASE_URL || DEFAULT_BASE_URL,
+    token_env: 'SOFTYPM_API_TOKEN',
+  };
+}
+
+// The single account configured through the environment, used when there is no profiles file
+export function implicitProfiles(): ProfileConfig {
+  return { configured: false, profiles: { [DEFAULT_PROFILE]: envProfile() } };
+}
+
+export function loadProfiles(): ProfileConfig {
+  const path = getProfilesPath();
+  if (!existsSync(path)) {
+    if (process.env.SOFTYPM_PROFILES_FILE) {
+      throw new Error(`Profiles file not found: ${path}`);
+    }
+    return implicitProfiles();
+  }
+
+  const parsed = ProfilesFileSchema.safeParse(readJsonFile<unknown>(path, null));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid profiles file ${path}: ${issues}`);
+  }
+  if (parsed.data.default_profile && !parsed.data.profiles[parsed.data.default_profile]) {
+    throw new Error(`Invalid profiles file ${path}: default_profile "${parsed.data.default_profile}" is not defined`);
+  }
+
+  return { ...parsed.data, configured: true, path };
+}
+
+export function resolveProfileToken(name: string, profile: Profile): string {
+  if (profile.token) {
+    return profile.token;
+  }
+
+  if (profile.token_env) {
+    const token = process.env[profile.token_env];
+    if (!token && name !== DEFAULT_PROFILE) {
+      throw new Error(`Profile "${name}" reads its token from ${profile.token_env}, which is not set`);
+    }
+    return token || '';
+  }
+
+  const tokenFile = profile.token_file!.replace(/^~(?=$|\/)/, homedir());
+  if (!existsSync(tokenFile)) {
+    throw new Error(`Profile "${name}" reads its token from ${tokenFile}, which does not exist`);
+  }
+  return readFileSync(tokenFile, 'utf8').trim();
+}
+
+/**
+ * Pick the profile to start with. Order:
+ *  1. env   - SOFTYPM_PROFILE
+ *  2. state - the last switch_profile, saved per workspace
+ *  3. repo  - "profile" in the workspace's .softypm.json
+ *  4. file  - default_profile in the profiles file, else its first profile
+ */
+export class ActiveProfileStore {
+  constructor(private config: ProfileConfig, private workspaceRoot: string, private contextKey: string = workspaceRoot) {}
+
+  resolve(): ActiveProfile {
+    if (!this.config.configured) {
+      return { name: DEFAULT_PROFILE, source: 'env' };
+    }
+
+    const candidates: [unknown, ProfileSource][] = [
+      [process.env.SOFTYPM_PROFILE, 'env'],
+      [readStateFile<Record<string, string>>(ACTIVE_PROFILE_STATE_FILE, {})[this.contextKey], 'state'],
+      [readRepoConfig(this.workspaceRoot)?.profile, 'repo'],
+    ];
+
+    for (const [name, source] of candidates) {
+      if (typeof name !== 'string' || !name) {
+        continue;
+      }
+      if (!this.config.profiles[name]) {
+        // An unknown name from the environment is a configuration mistake worth failing on
+        if (source === 'env') {
+          throw new Error(`SOFTYPM_PROFILE "${name}" is not defined. Profiles: ${Object.keys(this.config.profiles).join(', ')}`);
+        }
+        continue;
+      }
+      return { name, source };
+    }
+
+    return { name: this.config.default_profile || Object.keys(this.config.profiles)[0], source: 'file' };
+  }
+
+  save(name: string): void {
+    const state = readStateFile<Record<string, string>>(ACTIVE_PROFILE_STATE_FILE, {});
+    state[this.contextKey] = name;
+    writeStateFile(ACTIVE_PROFILE_STATE_FILE, state);
+  }
+}
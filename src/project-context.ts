@@ -0,0 +1,129 @@
+import { existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { readJsonFile, readStateFile, writeStateFile } from './local-state.js';
+
+// Checked-in file that pins a repo to a SoftyPM project for the whole team
+export const REPO_CONFIG_FILE = '.softypm.json';
+
+const CONTEXT_STATE_FILE = 'contexts.json';
+
+/**
+ * Where the current project came from. Resolution order, highest first:
+ *  1. argument - project_id passed explicitly to a tool call
+ *  2. state    - set_project_context, saved per workspace in the local state file
+ *  3. repo     - project_id in the workspace's .softypm.json (skipped if it pins a different profile)
+ *  4. profile  - default_project_id of the active profile
+ *  5. env      - DEFAULT_PROJECT_ID, only when no profiles file is configured
+ */
+export type ProjectContextSource = 'argument' | 'state' | 'repo' | 'profile' | 'env';
+
+export interface ResolvedProjectContext {
+  projectId: number;
+  source: ProjectContextSource;
+}
+
+export interface RepoConfig {
+  project_id?: number;
+  profile?: string;
+  [key: string]: unknown;
+}
+
+interface SavedContext {
+  project_id: number;
+  updated_at: string;
+}
+
+type ContextState = Record<string, SavedContext>;
+
+// The workspace is SOFTYPM_WORKSPACE, or the nearest directory holding .softypm.json or .git
+export function findWorkspaceRoot(startDir: string = process.cwd()): string {
+  if (process.env.SOFTYPM_WORKSPACE) {
+    return resolve(process.env.SOFTYPM_WORKSPACE);
+  }
+
+  let dir = resolve(startDir);
+  while (true) {
+    if (existsSync(join(dir, REPO_CONFIG_FILE)) || existsSync(join(dir, '.git'))) {
+      return dir;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return resolve(startDir);
+    }
+    dir = parent;
+  }
+}
+
+export function readRepoConfig(workspaceRoot: string): RepoConfig | null {
+  const configPath = join(workspaceRoot, REPO_CONFIG_FILE);
+  return readJsonFile<RepoConfig | null>(configPath, null);
+}
+
+function parseProjectId(value: unknown): number | null {
+  const projectId = typeof value === 'string' ? parseInt(value) : value;
+  return typeof projectId === 'number' && Number.isInteger(projectId) && projectId > 0 ? projectId : null;
+}
+
+export interface ProjectContextOptions {
+  // Key for the saved selection: the workspace root, or a per-user key on a shared server
+  contextKey?: string;
+  // Active profile from a profiles file; unset when running on the environment's single account
+  profile?: string;
+  defaultProjectId?: number;
+}
+
+export class ProjectContextStore {
+  readonly workspaceRoot: string;
+  private contextKey: string;
+  private options: ProjectContextOptions;
+
+  constructor(workspaceRoot: string = findWorkspaceRoot(), options: ProjectContextOptions = {}) {
+    this.workspaceRoot = workspaceRoot;
+    this.contextKey = options.contextKey || workspaceRoot;
+    this.options = options;
+  }
+
+  // Resolve the context to restore on startup; explicit tool arguments are handled by callers
+  resolve(): ResolvedProjectContext | null {
+    const saved = parseProjectId(readStateFile<ContextState>(CONTEXT_STATE_FILE, {})[this.contextKey]?.project_id);
+    if (saved) {
+      return { projectId: saved, source: 'state' };
+    }
+
+    // A repo pinned to another profile's project would point at the wrong account
+    const repoConfig = readRepoConfig(this.workspaceRoot);
+    const pinned = parseProjectId(repoConfig?.project_id);
+    if (pinned && (!this.options.profile || !repoConfig?.profile || repoConfig.profile === this.options.profile)) {
+      return { projectId: pinned, source: 'repo' };
+    }
+
+    if (this.options.profile) {
+      return this.options.defaultProjectId ? { projectId: this.options.defaultProjectId, source: 'profile' } : null;
+    }
+
+    const fromEnv = parseProjectId(process.env.DEFAULT_PROJECT_ID);
+    if (fromEnv) {
+      return { projectId: fromEnv, source: 'env' };
+    }
+
+    return null;
+  }
+
+  save(projectId: number): void {
+    const state = readStateFile<ContextState>(CONTEXT_STATE_FILE, {});
+    state[this.contextKey] = {
+      project_id: projectId,
+      updated_at: new Date().toISOString(),
+    };
+    writeStateFile(CONTEXT_STATE_FILE, state);
+  }
+
+  clear(): void {
+    const state = readStateFile<ContextState>(CONTEXT_STATE_FILE, {});
+    if (state[this.contextKey]) {
+      delete state[this.contextKey];
+      writeStateFile(CONTEXT_STATE_FILE, state);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SoftYPMClient, Story } from './softypm-client.js';
+import { Workflow } from './workflow.js';
+import { z } from 'zod';
+
+export type WorkflowResolver = (projectId: number) => Promise<Workflow>;
+
+// Throws for projects the caller may not read; owner names the story when it's checked through one
+export type ProjectCheck = (projectId: number, owner?: string) => void;
+
+// Shared guidance text, used both by prompts and by tool responses
+export function workflowGuidance(workflow: Workflow) {
+  return `You are now acting as both DEVELOPER and PROJECT MANAGER for this project. Remember to:
+
+🔄 **Workflow**: Always move stories ${workflow.describe()}
+📏 **Story Size**: Keep stories 1-4 hours, create new ones for additional work
+📊 **Track Progress**: Update story status as you work`;
+}
+
+export const STORY_BREAKDOWN_EXAMPLE = `**Example breakdown:**
+• Create core functionality (3h)
+• Add validation and error handling (2h)
+• Write tests (2h)
+• Update documentation (1h)`;
+
+export const PROMPTS = [
+  {
+    name: 'start_session',
+    description: 'Load the current project and suggest the next story to work on',
+    arguments: [
+      {
+        name: 'project_id',
+        description: 'Project ID (optional if project context is set)',
+        required: false,
+      },
+      {
+        name: 'focus',
+        description: 'Optional area to focus on, e.g. an epic name or feature',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: 'daily_standup',
+    description: 'Summarize stories that were completed or moved into active work since a date',
+    arguments: [
+      {
+        name: 'since',
+        description: 'Start date (YYYY-MM-DD). Defaults to 24 hours ago.',
+        required: false,
+      },
+      {
+        name: 'project_id',
+        description: 'Project ID (optional if project context is set)',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: 'break_down_story',
+    description: 'Break a large story into smaller 1-4 hour stories',
+    arguments: [
+      {
+        name: 'story_id',
+        description: 'The story ID to break down',
+        required: true,
+      },
+      {
+        name: 'max_hours',
+        description: 'Largest estimate allowed for each new story (default 4)',
+        required: false,
+      },
+    ],
+  },
+];
+
+// Prompt arguments always arrive as strings, so coerce numbers here
+const StartSessionArgsSchema = z.object({
+  project_id: z.coerce.number().positive().optional(),
+  focus: z.string().optional(),
+});
+
+const DailyStandupArgsSchema = z.object({
+  since: z.string().optional(),
+  project_id: z.coerce.number().positive().optional(),
+});
+
+const BreakDownStoryArgsSchema = z.object({
+  story_id: z.coerce.number().positive(),
+  max_hours: z.coerce.number().positive().max(8).default(4),
+});
+
+function userMessage(text: string) {
+  return {
+    role: 'user' as const,
+    content: {
+      type: 'text' as const,
+      text,
+    },
+  };
+}
+
+function formatStoryLine(story: Story, workflow: Workflow) {
+  return `• #${story.id}: ${story.name} [${workflow.stateName(story.status)}] ${story.estimate ? `(${story.estimate}h)` : ''}`.trimEnd();
+}
+
+function requireProjectId(projectId: number | undefined, currentProjectId: number | null) {
+  const targetProjectId = projectId || currentProjectId;
+
+  if (!targetProjectId) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'No project context set. Use set_project_context first or provide project_id.'
+    );
+  }
+
+  return targetProjectId;
+}
+
+export async function getPrompt(
+  client: SoftYPMClient,
+  name: string,
+  args: Record<string, string> | undefined,
+  currentProjectId: number | null,
+  resolveWorkflow: WorkflowResolver,
+  checkProject: ProjectCheck
+) {
+  switch (name) {
+    case 'start_session':
+      return startSessionPrompt(client, args, currentProjectId, resolveWorkflow, checkProject);
+
+    case 'daily_standup':
+      return dailyStandupPrompt(client, args, currentProjectId, resolveWorkflow, checkProject);
+
+    case 'break_down_story':
+      return breakDownStoryPrompt(client, args, resolveWorkflow, checkProject);
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+}
+
+async function startSessionPrompt(
+  client: SoftYPMClient,
+  args: Record<string, string> | undefined,
+  currentProjectId: number | null,
+  resolveWorkflow: WorkflowResolver,
+  checkProject: ProjectCheck
+) {
+  const { project_id, focus } = StartSessionArgsSchema.parse(args || {});
+  const projectId = requireProjectId(project_id, currentProjectId);
+  checkProject(projectId);
+
+  const project = await client.getProject(projectId);
+  const stories = await client.getProjectStories(projectId);
+  const workflow = await resolveWorkflow(projectId);
+  const activeName = workflow.startState?.name || 'In Progress';
+
+  const inProgressStories = stories.filter(s => workflow.isCategory(s.status, 'active'));
+  const backlogStories = stories.filter(s => workflow.isCategory(s.status, 'backlog'));
+  const nextStory = inProgressStories[0] || backlogStories[0];
+
+  const text = `Let's start a work session on **${project.name}** (Project #${projectId}, ${project.progress_percentage || 0}% complete).
+
+${workflowGuidance(workflow)}
+
+**In Progress (${inProgressStories.length}):**
+${inProgressStories.length > 0 ? inProgressStories.map(s => formatStoryLine(s, workflow)).join('\n') : 'None'}
+
+**Backlog (${backlogStories.length}, first 5):**
+${backlogStories.length > 0 ? backlogStories.slice(0, 5).map(s => formatStoryLine(s, workflow)).join('\n') : 'None'}
+
+${nextStory
+  ? `**Suggested next story**: #${nextStory.id} - ${nextStory.name}${workflow.isCategory(nextStory.status, 'backlog') ? ` (move it to ${activeName} before starting)` : ' (already in progress, finish it first)'}`
+  : '**Suggested next step**: The backlog is empty. Create 1-4 hour stories for the next piece of work with `create_story`.'}
+${focus ? `\nFocus this session on: ${focus}. Prefer stories related to it.` : ''}
+Confirm which story to work on, then use \`update_story_status\` to move it to ${activeName}.`;
+
+  return {
+    description: `Start a work session on ${project.name}`,
+    messages: [userMessage(text.trimEnd())],
+  };
+}
+
+async function dailyStandupPrompt(
+  client: SoftYPMClient,
+  args: Record<string, string> | undefined,
+  currentProjectId: number | null,
+  resolveWorkflow: WorkflowResolver,
+  checkProject: ProjectCheck
+) {
+  const { since, project_id } = DailyStandupArgsSchema.parse(args || {});
+  const projectId = requireProjectId(project_id, currentProjectId);
+  checkProject(projectId);
+
+  const sinceDate = since ? new Date(since) : new Date(Date.now() - 24 * 60 * 60 * 1000);
+  if (Number.isNaN(sinceDate.getTime())) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid since date: ${since}. Use YYYY-MM-DD.`);
+  }
+
+  const project = await client.getProject(projectId);
+  const stories = await client.getProjectStories(projectId);
+  const workflow = await resolveWorkflow(projectId);
+
+  const changedSince = (story: Story) => !!story.updated_at && new Date(story.updated_at) >= sinceDate;
+  const doneStories = stories.filter(s => workflow.isCategory(s.status, 'done') && changedSince(s));
+  const inProgressStories = stories.filter(s => workflow.isCategory(s.status, 'active') && changedSince(s));
+  const doneHours = doneStories.reduce((sum, s) => sum + (s.estimate || 0), 0);
+
+  const text = `Write a short daily standup update for **${project.name}** covering work since ${sinceDate.toLocaleDateString()}.
+
+**Moved to Done (${doneStories.length}, ${doneHours}h estimated):**
+${doneStories.length > 0 ? doneStories.map(s => formatStoryLine(s, workflow)).join('\n') : 'None'}
+
+**Moved to In Progress (${inProgressStories.length}):**
+${inProgressStories.length > 0 ? inProgressStories.map(s => formatStoryLine(s, workflow)).join('\n') : 'None'}
+
+Use three sections: **Yesterday** (completed work), **Today** (work in progress and what comes next) and **Blockers** (ask me if you are not aware of any). Keep it brief and reference story IDs.`;
+
+  return {
+    description: `Daily standup for ${project.name}`,
+    messages: [userMessage(text)],
+  };
+}
+
+async function breakDownStoryPrompt(
+  client: SoftYPMClient,
+  args: Record<string, string> | undefined,
+  resolveWorkflow: WorkflowResolver,
+  checkProject: ProjectCheck
+) {
+  const { story_id, max_hours } = BreakDownStoryArgsSchema.parse(args || {});
+  const story = await client.getStory(story_id);
+  checkProject(story.project_id, `Story ${story.id}`);
+  const workflow = await resolveWorkflow(story.project_id);
+
+  const text = `Break down story #${story.id} "${story.name}" into smaller stories of 1-${max_hours} hours each.
+
+**Current estimate**: ${story.estimate ? `${story.estimate} hours` : 'Not estimated'}
+**Status**: ${workflow.stateName(story.status)}
+**Description**:
+${story.description || 'No description'}
+
+Each new story should be independently completable, specific and actionable, with a clear description and an estimate of at most ${max_hours} hours.
+
+${STORY_BREAKDOWN_EXAMPLE}
+
+Propose the breakdown first. Once I confirm, create each story with \`create_story\`${story.epic_id ? ` using \`epic_id: ${story.epic_id}\`` : ''} and \`project_id: ${story.project_id}\`.`;
+
+  return {
+    description: `Break down story #${story.id} into smaller stories`,
+    messages: [userMessage(text)],
+  };
+}
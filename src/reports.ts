@@ -0,0 +1,262 @@
+import { Story, StoryActivity } from './softypm-client.js';
+import { Workflow } from './workflow.js';
+
+export const REPORT_KINDS = ['burndown', 'velocity', 'cycle_time'] as const;
+export const REPORT_OUTPUTS = ['table', 'csv', 'chart'] as const;
+
+export type ReportKind = typeof REPORT_KINDS[number];
+export type ReportOutput = typeof REPORT_OUTPUTS[number];
+
+// Inclusive range of UTC dates, as YYYY-MM-DD
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+// When a story started and finished, from its status history
+export interface StoryTimeline {
+  story: Story;
+  started_at: string | null;
+  done_at: string | null;
+}
+
+export interface BurndownPoint {
+  date: string;
+  remaining_hours: number;
+  // Straight line from the first day's remaining hours to zero on the last day of the range
+  ideal_hours: number;
+}
+
+export interface VelocityWeek {
+  // Monday of the week
+  week_start: string;
+  stories: number;
+  hours: number;
+}
+
+export interface CycleTimeEntry {
+  story_id: number;
+  name: string;
+  started_at: string;
+  done_at: string;
+  days: number;
+}
+
+export interface CycleTimeSummary {
+  entries: CycleTimeEntry[];
+  average_days: number | null;
+  median_days: number | null;
+  p85_days: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+export function utcDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return utcDate(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+}
+
+function endOfDay(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) + DAY_MS - 1;
+}
+
+function datesIn(range: DateRange): string[] {
+  const dates: string[] = [];
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// The last four weeks up to today
+export function defaultRange(today: Date = new Date()): DateRange {
+  const to = utcDate(today);
+  return { from: addDays(to, -27), to };
+}
+
+/**
+ * Work out when each story entered active work and when it was finished. Status history wins; a story
+ * that is done but has no recorded history falls back to its updated_at.
+ */
+export function buildTimelines(stories: Story[], history: Map<number, StoryActivity[]>, workflow: Workflow): StoryTimeline[] {
+  return stories.map(story => {
+    const changes = (history.get(story.id) || [])
+      .filter(change => change.to_status !== undefined && change.to_status !== null && change.created_at)
+      .sort((a, b) => Date.parse(a.created_at!) - Date.parse(b.created_at!));
+
+    const started = changes.find(change => workflow.isCategory(change.to_status!, 'active'));
+    const isDone = workflow.isCategory(story.status, 'done');
+    const finished = isDone
+      ? [...changes].reverse().find(change => workflow.isCategory(change.to_status!, 'done'))
+      : undefined;
+
+    return {
+      story,
+      started_at: started?.created_at || null,
+      done_at: isDone ? finished?.created_at || story.updated_at || null : null,
+    };
+  });
+}
+
+// Estimated hours still open at the end of each day, for stories that existed by then
+export function burndown(timelines: StoryTimeline[], range: DateRange, today: Date = new Date()): BurndownPoint[] {
+  const dates = datesIn(range);
+  const lastDay = utcDate(today);
+  const remainingOn = (date: string) => {
+    const end = endOfDay(date);
+    return timelines
+      .filter(({ story }) => !story.created_at || Date.parse(story.created_at) <= end)
+      .filter(({ done_at }) => !done_at || Date.parse(done_at) > end)
+      .reduce((sum, { story }) => sum + (story.estimate || 0), 0);
+  };
+
+  const start = dates.length > 0 ? remainingOn(dates[0]) : 0;
+  const steps = Math.max(dates.length - 1, 1);
+  return dates
+    .filter(date => date <= lastDay)
+    .map((date, index) => ({
+      date,
+      remaining_hours: round(remainingOn(date)),
+      ideal_hours: round(start - (start * index) / steps),
+    }));
+}
+
+// Estimated hours finished per week, weeks starting on Monday
+export function velocity(timelines: StoryTimeline[], range: DateRange): VelocityWeek[] {
+  const fromDay = new Date(`${range.from}T00:00:00Z`).getUTCDay();
+  const weeks: VelocityWeek[] = [];
+  for (let weekStart = addDays(range.from, -((fromDay + 6) % 7)); weekStart <= range.to; weekStart = addDays(weekStart, 7)) {
+    const start = Date.parse(`${weekStart}T00:00:00Z`);
+    const done = timelines.filter(({ done_at }) => done_at && Date.parse(done_at) >= start && Date.parse(done_at) < start + 7 * DAY_MS);
+    weeks.push({
+      week_start: weekStart,
+      stories: done.length,
+      hours: round(done.reduce((sum, { story }) => sum + (story.estimate || 0), 0)),
+    });
+  }
+  return weeks;
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+}
+
+// Days from first entering active work to done, for stories finished within the range
+export function cycleTime(timelines: StoryTimeline[], range: DateRange): CycleTimeSummary {
+  const from = Date.parse(`${range.from}T00:00:00Z`);
+  const to = endOfDay(range.to);
+  const entries = timelines
+    .filter(({ started_at, done_at }) => started_at && done_at && Date.parse(done_at) >= from && Date.parse(done_at) <= to)
+    .map(({ story, started_at, done_at }) => ({
+      story_id: story.id,
+      name: story.name,
+      started_at: started_at!,
+      done_at: done_at!,
+      days: round(Math.max(0, Date.parse(done_at!) - Date.parse(started_at!)) / DAY_MS),
+    }))
+    .sort((a, b) => Date.parse(a.done_at) - Date.parse(b.done_at));
+
+  if (entries.length === 0) {
+    return { entries, average_days: null, median_days: null, p85_days: null };
+  }
+
+  const days = entries.map(entry => entry.days).sort((a, b) => a - b);
+  return {
+    entries,
+    average_days: round(days.reduce((sum, value) => sum + value, 0) / days.length),
+    median_days: percentile(days, 0.5),
+    p85_days: percentile(days, 0.85),
+  };
+}
+
+// A report as rows, ready for any of the outputs
+export interface ReportTable {
+  headers: string[];
+  rows: (string | number)[][];
+  // Column plotted by the chart output
+  chartColumn: number;
+}
+
+export function reportTable(kind: ReportKind, data: { burndown?: BurndownPoint[]; velocity?: VelocityWeek[]; cycle_time?: CycleTimeSummary }): ReportTable {
+  switch (kind) {
+    case 'burndown':
+      return {
+        headers: ['Date', 'Remaining (h)', 'Ideal (h)'],
+        rows: (data.burndown || []).map(point => [point.date, point.remaining_hours, point.ideal_hours]),
+        chartColumn: 1,
+      };
+    case 'velocity':
+      return {
+        headers: ['Week of', 'Stories done', 'Hours done'],
+        rows: (data.velocity || []).map(week => [week.week_start, week.stories, week.hours]),
+        chartColumn: 2,
+      };
+    case 'cycle_time':
+      return {
+        headers: ['Story', 'Name', 'Started', 'Done', 'Days'],
+        rows: (data.cycle_time?.entries || []).map(entry => [
+          `#${entry.story_id}`,
+          entry.name,
+          entry.started_at.slice(0, 10),
+          entry.done_at.slice(0, 10),
+          entry.days,
+        ]),
+        chartColumn: 4,
+      };
+  }
+}
+
+function markdownTable(table: ReportTable): string {
+  const escape = (cell: string | number) => String(cell).replace(/\|/g, '\\|');
+  return [
+    `| ${table.headers.join(' | ')} |`,
+    `| ${table.headers.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${row.map(escape).join(' | ')} |`),
+  ].join('\n');
+}
+
+function csv(table: ReportTable): string {
+  const escape = (cell: string | number) => {
+    const text = String(cell);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [table.headers, ...table.rows].map(row => row.map(escape).join(',')).join('\n');
+}
+
+// Horizontal bars scaled to the largest value, labelled with the first column
+function asciiChart(table: ReportTable, width = 40): string {
+  const values = table.rows.map(row => Number(row[table.chartColumn]) || 0);
+  const max = Math.max(...values, 0);
+  const labels = table.rows.map(row => String(row[0]));
+  const labelWidth = Math.max(...labels.map(label => label.length), 0);
+
+  return table.rows
+    .map((_, index) => {
+      const bar = max > 0 ? '#'.repeat(Math.round((values[index] / max) * width)) : '';
+      return `${labels[index].padEnd(labelWidth)} | ${bar} ${values[index]}`;
+    })
+    .join('\n');
+}
+
+export function renderReportTable(table: ReportTable, output: ReportOutput): string {
+  if (table.rows.length === 0) {
+    return 'No data in this range.';
+  }
+
+  switch (output) {
+    case 'table':
+      return markdownTable(table);
+    case 'csv':
+      return '```csv\n' + csv(table) + '\n```';
+    case 'chart':
+      return '```\n' + `${table.headers[0]} | ${table.headers[table.chartColumn]}\n` + asciiChart(table) + '\n```';
+  }
+}
@@ -0,0 +1,179 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { formatProjectDetails, formatStoryDetails, formatStoryList } from './formatters.js';
+import { Project, SoftYPMClient, Story } from './softypm-client.js';
+import { StateCategory, Workflow } from './workflow.js';
+
+// Resources are addressed as softypm://projects/{id}, softypm://projects/{id}/stories
+// and softypm://stories/{id}. Append ?format=json to read the raw JSON instead of Markdown.
+export const RESOURCE_SCHEME = 'softypm:';
+
+export type ResourceFormat = 'markdown' | 'json';
+
+export interface ParsedResourceUri {
+  kind: 'project' | 'project_stories' | 'story';
+  id: number;
+  format: ResourceFormat;
+}
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'softypm://projects/{project_id}{?format}',
+    name: 'SoftyPM project',
+    description: 'Project details and progress. Use format=json for the raw project object.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'softypm://projects/{project_id}/stories{?format}',
+    name: 'SoftyPM project stories',
+    description: 'All stories in a project, active work first, then the backlog and finished stories. Use format=json for the raw story list.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'softypm://stories/{story_id}{?format}',
+    name: 'SoftyPM story',
+    description: 'A single story with its description, status and estimate. Use format=json for the raw story object.',
+    mimeType: 'text/markdown',
+  },
+];
+
+export function projectResourceUri(projectId: number, format: ResourceFormat = 'markdown') {
+  return withFormat(`softypm://projects/${projectId}`, format);
+}
+
+export function projectStoriesResourceUri(projectId: number, format: ResourceFormat = 'markdown') {
+  return withFormat(`softypm://projects/${projectId}/stories`, format);
+}
+
+export function storyResourceUri(storyId: number, format: ResourceFormat = 'markdown') {
+  return withFormat(`softypm://stories/${storyId}`, format);
+}
+
+function withFormat(uri: string, format: ResourceFormat) {
+  return format === 'json' ? `${uri}?format=json` : uri;
+}
+
+export function parseResourceUri(uri: string): ParsedResourceUri {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+  }
+
+  if (url.protocol !== RESOURCE_SCHEME) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI scheme: ${uri}`);
+  }
+
+  const formatParam = url.searchParams.get('format');
+  if (formatParam && formatParam !== 'json' && formatParam !== 'markdown') {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource format "${formatParam}". Use markdown or json.`);
+  }
+  const format: ResourceFormat = formatParam === 'json' ? 'json' : 'markdown';
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  const id = Number(segments[0]);
+
+  if (segments.length === 0 || !Number.isInteger(id) || id <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource URI is missing a numeric ID: ${uri}`);
+  }
+
+  if (url.host === 'projects' && segments.length === 1) {
+    return { kind: 'project', id, format };
+  }
+  if (url.host === 'projects' && segments.length === 2 && segments[1] === 'stories') {
+    return { kind: 'project_stories', id, format };
+  }
+  if (url.host === 'stories' && segments.length === 1) {
+    return { kind: 'story', id, format };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+}
+
+// Concrete resources to advertise for the current project context
+export function listProjectResources(projectId: number, projectName?: string) {
+  const label = projectName || `Project #${projectId}`;
+
+  return [
+    {
+      uri: projectResourceUri(projectId),
+      name: label,
+      description: 'Current project details and progress',
+      mimeType: 'text/markdown',
+    },
+    {
+      uri: projectStoriesResourceUri(projectId),
+      name: `${label} stories`,
+      description: 'All stories in the current project, active work first',
+      mimeType: 'text/markdown',
+    },
+  ];
+}
+
+// checkProject throws for projects the caller may not read; owner names the story when it's checked through one
+export async function readResource(
+  client: SoftYPMClient,
+  uri: string,
+  resolveWorkflow: (projectId: number) => Promise<Workflow>,
+  checkProject: (projectId: number, owner?: string) => void
+) {
+  const parsed = parseResourceUri(uri);
+  let data: Project | Story | Story[];
+  let markdown: () => string;
+
+  switch (parsed.kind) {
+    case 'project': {
+      checkProject(parsed.id);
+      const project = await client.getProject(parsed.id);
+      data = project;
+      markdown = () => formatProjectDetails(project);
+      break;
+    }
+    case 'project_stories': {
+      checkProject(parsed.id);
+      const stories = await client.getProjectStories(parsed.id);
+      const workflow = await resolveWorkflow(parsed.id);
+      data = stories;
+      markdown = () => formatStoryList({
+        project_id: parsed.id,
+        filters: {},
+        stories: byCategory(stories, workflow),
+        total: stories.length,
+        offset: 0,
+        next_offset: null,
+        next_page_args: null,
+      }, workflow);
+      break;
+    }
+    case 'story': {
+      const story = await client.getStory(parsed.id);
+      checkProject(story.project_id, `Story ${story.id}`);
+      const workflow = await resolveWorkflow(story.project_id);
+      data = story;
+      markdown = () => formatStoryDetails({
+        story,
+        status: workflow.stateSummary(story.status),
+        next_states: workflow.nextStates(story.status),
+      }, workflow);
+      break;
+    }
+  }
+
+  return {
+    contents: [
+      parsed.format === 'json'
+        ? { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }
+        : { uri, mimeType: 'text/markdown', text: markdown() },
+    ],
+  };
+}
+
+// Active work first, then the backlog, then finished stories; stories in states the workflow doesn't know come last
+function byCategory(stories: Story[], workflow: Workflow) {
+  const order: StateCategory[] = ['active', 'backlog', 'done'];
+  const rank = (story: Story) => {
+    const category = workflow.categoryOf(story.status);
+    return category ? order.indexOf(category) : order.length;
+  };
+  return [...stories].sort((a, b) => rank(a) - rank(b));
+}
@@ -0,0 +1,3601 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Epic, SoftYPMClient, SoftYPMConfig, Sprint, Story, StoryActivity, SyncReport, UpdateStoryData } from './softypm-client.js';
+import { OfflineStore } from './offline-store.js';
+import { listProjectResources, readResource, RESOURCE_TEMPLATES } from './resources.js';
+import { getPrompt, PROMPTS } from './prompts.js';
+import {
+  BacklogExported,
+  BacklogImported,
+  BacklogImportEpic,
+  BacklogImportRow,
+  ChangeUndone,
+  CommentAdded,
+  CommitsLinked,
+  DependencyChanged,
+  DryRun,
+  EpicCreated,
+  EpicDetails,
+  EpicList,
+  EpicSummary,
+  formatBacklogExported,
+  formatBacklogImported,
+  formatChangeUndone,
+  formatCommentAdded,
+  formatCommitComment,
+  formatCommitsLinked,
+  formatDependencyChanged,
+  formatDryRun,
+  formatEpicCreated,
+  formatEpicDetails,
+  formatEpicList,
+  formatGitContext,
+  formatNextStory,
+  formatProfileStatus,
+  formatProjectContextCleared,
+  formatProjectContextSet,
+  formatProjectInfo,
+  formatProjectList,
+  formatProjectReport,
+  formatRecentChanges,
+  formatStatusTransition,
+  formatSprintDetails,
+  formatSprintList,
+  formatSprintPlanned,
+  formatStoriesCreated,
+  formatStoryArchived,
+  formatStoryCreated,
+  formatStoryDetails,
+  formatStoryList,
+  formatStoryMoved,
+  formatStorySplit,
+  formatStoryTooLarge,
+  formatStoryUpdated,
+  formatSyncStatus,
+  formatTimeLogged,
+  formatTimerStarted,
+  formatTimerStopped,
+  GitContext,
+  NextStory,
+  OUTPUT_FORMAT_PROPERTY,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  OutputFormatSchema,
+  ProfileStatus,
+  ProjectContextCleared,
+  ProjectContextSet,
+  ProjectInfo,
+  ProjectList,
+  ProjectReport,
+  RecentChanges,
+  renderToolOutput,
+  SprintDetails,
+  SprintList,
+  SprintPlanned,
+  SprintSummary,
+  StatusNotices,
+  StatusTransition,
+  StoriesCreated,
+  StoryArchived,
+  StoryBatchResult,
+  StoryCreated,
+  StoryDetails,
+  StoryList,
+  StoryMoved,
+  StorySplit,
+  StoryTooLarge,
+  StoryUpdated,
+  SyncStatus,
+  TimeLogged,
+  TimerStarted,
+  TimerStop,
+  TimerStopped,
+  ToolOutput,
+} from './formatters.js';
+import {
+  BACKLOG_FILE_FORMATS,
+  BacklogExport,
+  BacklogFileFormat,
+  BacklogRow,
+  detectBacklogFormat,
+  ExportedStory,
+  parseBacklog,
+  PLANNING_FILES,
+  serializeBacklog,
+} from './backlog-files.js';
+import { AuditChange, AuditEntry, AuditLog, lastOpenChange, undoneChanges, UndoPlan } from './audit-log.js';
+import { BlockerState, blockerState, createsCycle, isOpenBlocker, recommendNext } from './dependencies.js';
+import { DoctorCheck, runDoctor } from './doctor.js';
+import { branchStory, commitsForStory, GitCommit, GitRepo } from './git.js';
+import { findWorkspaceRoot, ProjectContextSource, ProjectContextStore } from './project-context.js';
+import { isProjectAllowed, isWrite, loadPolicy, Policy, previewArguments, toolDisabledReason } from './policy.js';
+import { ActiveProfileStore, DEFAULT_PROFILE, loadProfiles, Profile, ProfileConfig, resolveProfileToken } from './profiles.js';
+import { DEFAULT_WORKFLOW, fetchProjectWorkflow, loadLocalWorkflow, Workflow } from './workflow.js';
+import { elapsedHours, StoppedTimer, TimeTracker } from './time-tracking.js';
+import { planSprint, sprintDates } from './sprint-planning.js';
+import { buildTimelines, burndown, cycleTime, defaultRange, REPORT_KINDS, REPORT_OUTPUTS, velocity } from './reports.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, queryStories, STORY_SORT_FIELDS, StoryQuerySchema } from './story-query.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { z, ZodError } from 'zod';
+import { AuthenticationError, NotFoundError, PermissionError, RateLimitError, SoftYPMError, TimeoutError, ValidationError } from './errors.js';
+
+// Map client and validation failures onto MCP error codes, keeping API details in the error data
+function toMcpError(error: unknown, context: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+
+  if (error instanceof ZodError) {
+    const issues = error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`).join('; ');
+    return new McpError(ErrorCode.InvalidParams, `${context}: Invalid arguments (${issues})`);
+  }
+
+  const message = `${context}: ${error instanceof Error ? error.message : String(error)}`;
+  if (!(error instanceof SoftYPMError)) {
+    return new McpError(ErrorCode.InternalError, message);
+  }
+
+  const data = {
+    type: error.name,
+    status: error.status,
+    details: error.details,
+    retryable: error.retryable,
+    retry_after_ms: error instanceof RateLimitError ? error.retryAfterMs : undefined,
+  };
+
+  if (error instanceof ValidationError || error instanceof NotFoundError) {
+    return new McpError(ErrorCode.InvalidParams, message, data);
+  }
+  if (error instanceof AuthenticationError || error instanceof PermissionError) {
+    return new McpError(ErrorCode.InvalidRequest, message, data);
+  }
+  if (error instanceof TimeoutError) {
+    return new McpError(ErrorCode.RequestTimeout, message, data);
+  }
+
+  return new McpError(ErrorCode.InternalError, message, data);
+}
+
+// Validation schemas for tool inputs
+const EstimateSchema = z.number().positive().max(8);
+
+// Larger stories are rejected with breakdown guidance
+const MAX_STORY_ESTIMATE = 6;
+
+const CreateStorySchema = z.object({
+  name: z.string().min(1, "Story name is required"),
+  description: z.string().optional(),
+  estimate: EstimateSchema.optional(),
+  epic_id: z.number().optional(),
+  project_id: z.number().optional(),
+});
+
+const UpdateStoryStatusSchema = z.object({
+  story_id: z.number().positive(),
+  // Resolved against the active workflow: a state ID or a state name
+  status: z.union([z.string().min(1), z.number().int().positive()]),
+  notes: z.string().optional(),
+  include_commits: z.boolean().optional(),
+});
+
+const GetProjectSchema = z.object({
+  project_id: z.number().positive().optional(),
+});
+
+const SetProjectContextSchema = z.object({
+  project_id: z.number().positive(),
+});
+
+const CreateEpicSchema = z.object({
+  name: z.string().min(1, "Epic name is required"),
+  description: z.string().optional(),
+  project_id: z.number().optional(),
+});
+
+const AddStoryCommentSchema = z.object({
+  story_id: z.number().positive(),
+  comment: z.string().min(1, "Comment text is required"),
+});
+
+// The size limit is MAX_STORY_ESTIMATE, checked by validateStoryDrafts so every draft's problems are listed together
+const StoryDraftSchema = z.object({
+  name: z.string().min(1, "Story name is required"),
+  description: z.string().optional(),
+  estimate: z.number().positive().optional(),
+});
+
+const CreateStoriesSchema = z.object({
+  stories: z.array(StoryDraftSchema).min(1, "Provide at least one story").max(50, "Create at most 50 stories per call"),
+  epic_id: z.number().positive().optional(),
+  project_id: z.number().positive().optional(),
+});
+
+const SplitStorySchema = z.object({
+  story_id: z.number().positive(),
+  stories: z.array(StoryDraftSchema).min(2, "Split into at least two stories").max(20, "Split into at most 20 stories"),
+  keep_original: z.boolean().optional(),
+});
+
+type StoryDraft = z.infer<typeof StoryDraftSchema>;
+
+// Names are compared loosely so a retried batch matches what was already created
+function normalizeStoryName(name: string) {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+const UpdateStorySchema = z.object({
+  story_id: z.number().positive(),
+  name: z.string().min(1, "Story name cannot be empty").optional(),
+  description: z.string().optional(),
+  estimate: EstimateSchema.optional(),
+  epic_id: z.number().positive().optional(),
+});
+
+const MoveStoryToEpicSchema = z.object({
+  story_id: z.number().positive(),
+  epic_id: z.number().positive(),
+});
+
+const ArchiveStorySchema = z.object({
+  story_id: z.number().positive(),
+  permanently_delete: z.boolean().optional(),
+});
+
+const TimerSchema = z.object({
+  story_id: z.number().positive(),
+  description: z.string().optional(),
+});
+
+const LogTimeSchema = z.object({
+  story_id: z.number().positive(),
+  hours: z.number().positive().max(24),
+  description: z.string().optional(),
+  date: z.string().optional(),
+});
+
+const GetEpicSchema = z.object({
+  epic_id: z.number().positive(),
+});
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+const PlanSprintSchema = z.object({
+  capacity_hours: z.number().positive().max(1000),
+  epic_id: z.number().positive().optional(),
+  commit: z.boolean().optional(),
+  sprint_id: z.number().positive().optional(),
+  sprint_name: z.string().min(1).optional(),
+  starts_on: DateSchema.optional(),
+  ends_on: DateSchema.optional(),
+  goal: z.string().optional(),
+  project_id: z.number().positive().optional(),
+});
+
+const ProjectReportSchema = z.object({
+  report: z.enum(REPORT_KINDS),
+  output: z.enum(REPORT_OUTPUTS).default('table'),
+  from: DateSchema.optional(),
+  to: DateSchema.optional(),
+  sprint_id: z.number().positive().optional(),
+  project_id: z.number().positive().optional(),
+});
+
+// Status history requests made at once while building a report
+const HISTORY_CONCURRENCY = 4;
+
+const GetSprintSchema = z.object({
+  sprint_id: z.number().positive(),
+});
+
+const ExportBacklogSchema = z.object({
+  file: z.string().min(1).optional(),
+  file_format: z.enum(BACKLOG_FILE_FORMATS).optional(),
+  include_done: z.boolean().default(true),
+  overwrite: z.boolean().optional(),
+  project_id: z.number().positive().optional(),
+});
+
+const ImportBacklogSchema = z.object({
+  file: z.string().min(1).optional(),
+  file_format: z.enum(BACKLOG_FILE_FORMATS).optional(),
+  // Previewing is the default so a planning doc is never imported by accident
+  dry_run: z.boolean().default(true),
+  project_id: z.number().positive().optional(),
+});
+
+const BACKLOG_FILE_EXTENSIONS: Record<BacklogFileFormat, string> = { markdown: 'md', csv: 'csv', json: 'json' };
+
+const GitContextSchema = z.object({
+  start: z.boolean().optional(),
+});
+
+const LinkCommitsSchema = z.object({
+  story_id: z.number().positive().optional(),
+  // Hex only, so a value can never be read by git as an option
+  shas: z.array(z.string().regex(/^[0-9a-f]{4,40}$/i, 'Use a commit SHA')).min(1).max(50).optional(),
+});
+
+const DependencySchema = z.object({
+  story_id: z.number().positive(),
+  blocked_by_story_id: z.number().positive(),
+});
+
+const NextStorySchema = z.object({
+  project_id: z.number().positive().optional(),
+  epic_id: z.number().positive().optional(),
+  max_estimate: z.number().positive().optional(),
+  limit: z.number().int().min(1).max(10).default(3),
+});
+
+const RecentChangesSchema = z.object({
+  limit: z.number().int().min(1).max(100).default(10),
+  story_id: z.number().optional(),
+  tool: z.string().optional(),
+});
+
+const UndoLastChangeSchema = z.object({
+  change_id: z.number().int().positive().optional(),
+});
+
+const SwitchProfileSchema = z.object({
+  profile: z.string().optional(),
+});
+
+const SyncStatusSchema = z.object({
+  replay: z.boolean().optional(),
+  discard: z.string().optional(),
+});
+
+// Queued writes are replayed automatically at most this often
+const AUTO_REPLAY_INTERVAL_MS = 30000;
+
+const FindProjectSchema = z.object({
+  query: z.string().min(1, "Search query is required"),
+});
+
+// The sprint endpoint may not embed stories, so fall back to the project's stories assigned to it
+function sprintStories(sprint: Sprint, projectStories: Story[]): Story[] {
+  return sprint.stories || projectStories.filter(story => story.sprint_id === sprint.id);
+}
+
+// Committed and completed hours for a sprint against its capacity
+function summarizeSprint(sprint: Sprint, stories: Story[], workflow: Workflow): SprintSummary {
+  const committedHours = stories.reduce((sum, s) => sum + (s.estimate || 0), 0);
+  const doneHours = stories
+    .filter(s => workflow.isCategory(s.status, 'done'))
+    .reduce((sum, s) => sum + (s.estimate || 0), 0);
+
+  return {
+    story_count: stories.length,
+    committed_hours: committedHours,
+    done_hours: doneHours,
+    remaining_capacity_hours: sprint.capacity_hours ? sprint.capacity_hours - committedHours : null,
+    completion: committedHours > 0 ? Math.round((doneHours / committedHours) * 100) : 0,
+  };
+}
+
+// Roll up story counts, estimates and completion for an epic
+function summarizeEpic(stories: Story[], workflow: Workflow): EpicSummary {
+  const doneStories = stories.filter(s => workflow.isCategory(s.status, 'done'));
+  const totalEstimate = stories.reduce((sum, s) => sum + (s.estimate || 0), 0);
+  const completion = stories.length > 0 ? Math.round((doneStories.length / stories.length) * 100) : 0;
+
+  return {
+    story_count: stories.length,
+    done_count: doneStories.length,
+    total_estimate: totalEstimate,
+    completion,
+  };
+}
+
+// A tool's output with the format and status notices to render it with
+export interface ToolRun {
+  output: ToolOutput;
+  format: OutputFormat;
+  notices: StatusNotices;
+}
+
+export interface SoftYPMServerOptions {
+  // Overrides applied to every profile's client settings, e.g. a per-connection API token
+  client?: Partial<SoftYPMConfig>;
+  // Identifies the user on a shared server, keeping their saved context, timers and offline cache separate
+  userKey?: string;
+  // Defaults to the profiles file, or the single account configured through the environment
+  profiles?: ProfileConfig;
+  // Defaults to the policy file and SOFTYPM_READ_ONLY / SOFTYPM_DRY_RUN
+  policy?: Policy;
+}
+
+// Everything tied to one SoftyPM account, kept per profile so switching back and forth is cheap
+interface ProfileSession {
+  name: string;
+  profile: Profile;
+  client: SoftYPMClient;
+  offlineStore: OfflineStore;
+  timeTracker: TimeTracker;
+  auditLog: AuditLog;
+  contextStore: ProjectContextStore;
+  workflows: Map<number, Workflow>;
+}
+
+export class SoftYPMServer {
+  private server: Server;
+  private options: SoftYPMServerOptions;
+  private workspaceRoot: string;
+  private profileConfig: ProfileConfig;
+  private policy: Policy;
+  private activeProfileStore: ActiveProfileStore;
+  private profileSessions = new Map<string, ProfileSession>();
+  private activeProfile: string;
+  private currentProjectId: number | null = null;
+  private currentProjectSource: ProjectContextSource | null = null;
+  private localWorkflow: Workflow | null;
+  private lastReplayAt = 0;
+
+  constructor(options: SoftYPMServerOptions = {}) {
+    this.server = new Server(
+      {
+        name: 'softypm-mcp-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+          prompts: {},
+        },
+      }
+    );
+
+    this.options = options;
+    this.workspaceRoot = findWorkspaceRoot();
+    this.profileConfig = options.profiles || loadProfiles();
+    this.policy = options.policy || loadPolicy();
+    this.activeProfileStore = new ActiveProfileStore(this.profileConfig, this.workspaceRoot, this.stateKey);
+
+    // Restore project context for the starting profile: saved selection, .softypm.json, then defaults
+    this.activeProfile = this.activeProfileStore.resolve().name;
+    this.restoreProjectContext();
+
+    // A locally configured workflow applies to every project; otherwise each project's is fetched
+    this.localWorkflow = loadLocalWorkflow(this.workspaceRoot);
+
+    this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+  }
+
+  // Saved state is keyed per workspace locally, or per user on a shared server
+  private get stateKey(): string {
+    return this.options.userKey ? `user:${this.options.userKey}` : this.workspaceRoot;
+  }
+
+  private profileSession(name: string): ProfileSession {
+    const existing = this.profileSessions.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const profile = this.profileConfig.profiles[name];
+    if (!profile) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown profile "${name}". Profiles: ${Object.keys(this.profileConfig.profiles).join(', ')}`);
+    }
+
+    // The default profile keeps the single-account state files so existing timers and caches carry over
+    const isDefault = name === DEFAULT_PROFILE;
+    const namespace = [this.options.userKey, isDefault ? null : name].filter(Boolean).join('-') || undefined;
+    const offlineStore = new OfflineStore(namespace);
+
+    let apiToken: string;
+    try {
+      apiToken = resolveProfileToken(name, profile);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidRequest, error instanceof Error ? error.message : String(error));
+    }
+
+    const session: ProfileSession = {
+      name,
+      profile,
+      offlineStore,
+      timeTracker: new TimeTracker(namespace),
+      auditLog: new AuditLog(namespace),
+      contextStore: new ProjectContextStore(this.workspaceRoot, {
+        contextKey: isDefault ? this.stateKey : `${this.stateKey}#profile:${name}`,
+        profile: this.profileConfig.configured ? name : undefined,
+        defaultProjectId: profile.default_project_id,
+      }),
+      workflows: new Map(),
+      client: new SoftYPMClient({
+        baseURL: profile.base_url,
+        apiToken,
+        timeoutMs: process.env.SOFTYPM_TIMEOUT_MS ? parseInt(process.env.SOFTYPM_TIMEOUT_MS) : undefined,
+        retry: process.env.SOFTYPM_MAX_RETRIES ? { retries: parseInt(process.env.SOFTYPM_MAX_RETRIES) } : undefined,
+        offlineStore,
+        ...this.options.client,
+      }),
+    };
+    this.profileSessions.set(name, session);
+    return session;
+  }
+
+  private get softYPMClient(): SoftYPMClient {
+    return this.profileSession(this.activeProfile).client;
+  }
+
+  private get projectContextStore(): ProjectContextStore {
+    return this.profileSession(this.activeProfile).contextStore;
+  }
+
+  private get projectWorkflows(): Map<number, Workflow> {
+    return this.profileSession(this.activeProfile).workflows;
+  }
+
+  private get timeTracker(): TimeTracker {
+    return this.profileSession(this.activeProfile).timeTracker;
+  }
+
+  private get auditLog(): AuditLog {
+    return this.profileSession(this.activeProfile).auditLog;
+  }
+
+  // The change has already been made, so a log that can't be written is reported but doesn't fail the call
+  private recordChange(tool: string, args: any, change: AuditChange, undoes?: number): AuditEntry | null {
+    try {
+      return this.auditLog.append({ profile: this.activeProfile, tool, arguments: args || {}, ...change, undoes });
+    } catch (error) {
+      console.error(`Failed to write audit log ${this.auditLog.path}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  private get offlineStore(): OfflineStore {
+    return this.profileSession(this.activeProfile).offlineStore;
+  }
+
+  private restoreProjectContext(): void {
+    let restored = this.projectContextStore.resolve();
+    if (restored && !isProjectAllowed(this.policy, restored.projectId)) {
+      console.error(`Ignoring saved project context: project ${restored.projectId} is not allowed by the policy`);
+      restored = null;
+    }
+    this.currentProjectId = restored?.projectId ?? null;
+    this.currentProjectSource = restored?.source ?? null;
+  }
+
+  // For display: when the project's workflow can't be fetched, the default board stands in for this call
+  private async getWorkflow(projectId?: number | null): Promise<Workflow> {
+    try {
+      return await this.requireWorkflow(projectId);
+    } catch (error) {
+      // Not cached, so the project's own workflow is fetched again on the next call
+      console.error(`Using default workflow for project ${projectId}: ${error instanceof Error ? error.message : String(error)}`);
+      return new Workflow(DEFAULT_WORKFLOW);
+    }
+  }
+
+  // For writes that pick or check a status: a fetch failure is thrown rather than guessed around
+  private async requireWorkflow(projectId?: number | null): Promise<Workflow> {
+    if (this.localWorkflow) {
+      return this.localWorkflow;
+    }
+    if (!projectId) {
+      return new Workflow(DEFAULT_WORKFLOW);
+    }
+
+    let workflow = this.projectWorkflows.get(projectId);
+    if (!workflow) {
+      workflow = await fetchProjectWorkflow(this.softYPMClient, projectId);
+      this.projectWorkflows.set(projectId, workflow);
+    }
+    return workflow;
+  }
+
+  private setupToolHandlers() {
+    // List available tools
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const workflow = await this.getWorkflow(this.currentProjectId);
+      
+      const tools = [
+        {
+          name: 'set_project_context',
+          description: 'Set the current project context for all subsequent operations',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_id: {
+                type: 'number',
+                description: 'The project ID to set as current context',
+              },
+            },
+            required: ['project_id'],
+          },
+        },
+        {
+          name: 'clear_project_context',
+          description: 'Forget the saved project context for this workspace and fall back to .softypm.json or DEFAULT_PROJECT_ID',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'list_projects',
+          description: 'List all projects you have access to, with client and progress. Use this to find a project ID.',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'find_project',
+          description: 'Search projects by project name or client name to find a project ID',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Text to match against project and client names (case-insensitive)',
+              },
+            },
+            required: ['query'],
+          },
+        },
+        {
+          name: 'get_project_info',
+          description: 'Get current project information, stories, and progress',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+          },
+        },
+        {
+          name: 'create_story',
+          description: 'Create a new story in the current project. Stories should be 1-4 hours of work.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Story title (be specific and actionable)',
+              },
+              description: {
+                type: 'string',
+                description: 'Detailed description of the work to be done',
+              },
+              estimate: {
+                type: 'number',
+                description: 'Estimated hours (1-8, prefer 1-4 for good stories)',
+                minimum: 1,
+                maximum: 8,
+              },
+              epic_id: {
+                type: 'number',
+                description: 'Epic ID to assign this story to (optional)',
+              },
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'create_stories',
+          description: 'Create several stories at once under one epic. All stories are validated before any are created, and stories that already exist by name are skipped, so the call is safe to retry.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              stories: {
+                type: 'array',
+                description: 'Stories to create, each 1-4 hours of work',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: {
+                      type: 'string',
+                      description: 'Story title (be specific and actionable)',
+                    },
+                    description: {
+                      type: 'string',
+                      description: 'Detailed description of the work to be done',
+                    },
+                    estimate: {
+                      type: 'number',
+                      description: `Estimated hours (1-${MAX_STORY_ESTIMATE}, prefer 1-4)`,
+                      minimum: 1,
+                      maximum: MAX_STORY_ESTIMATE,
+                    },
+                  },
+                  required: ['name'],
+                },
+              },
+              epic_id: {
+                type: 'number',
+                description: 'Epic ID to place all stories under (optional)',
+              },
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+            required: ['stories'],
+          },
+        },
+        {
+          name: 'split_story',
+          description: 'Replace an oversized story with smaller child stories in the same epic. The children link back to the original, which is then archived.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID to split',
+              },
+              stories: {
+                type: 'array',
+                description: 'Child stories that replace the original, each 1-4 hours of work',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: {
+                      type: 'string',
+                      description: 'Story title (be specific and actionable)',
+                    },
+                    description: {
+                      type: 'string',
+                      description: 'Detailed description of the work to be done',
+                    },
+                    estimate: {
+                      type: 'number',
+                      description: `Estimated hours (1-${MAX_STORY_ESTIMATE}, prefer 1-4)`,
+                      minimum: 1,
+                      maximum: MAX_STORY_ESTIMATE,
+                    },
+                  },
+                  required: ['name'],
+                },
+              },
+              keep_original: {
+                type: 'boolean',
+                description: 'Keep the original story instead of archiving it (default false)',
+              },
+            },
+            required: ['story_id', 'stories'],
+          },
+        },
+        {
+          name: 'update_story_status',
+          description: `Update story status following proper workflow: ${workflow.describe()}`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID to update',
+              },
+              status: {
+                type: 'string',
+                enum: workflow.statusEnum(),
+                description: `${workflow.statusHelp()}. Always follow workflow order.`,
+              },
+              notes: {
+                type: 'string',
+                description: 'Optional progress notes, saved as a comment on the story',
+              },
+              include_commits: {
+                type: 'boolean',
+                description: 'When finishing the story, add its commits from the local git branch to the comment',
+              },
+            },
+            required: ['story_id', 'status'],
+          },
+        },
+        {
+          name: 'get_story',
+          description: 'Get details for a specific story',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID to retrieve',
+              },
+            },
+            required: ['story_id'],
+          },
+        },
+        {
+          name: 'update_story',
+          description: 'Edit a story\'s name, description, estimate or epic. Use this to fix a mis-scoped story instead of creating a duplicate.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID to update',
+              },
+              name: {
+                type: 'string',
+                description: 'New story title',
+              },
+              description: {
+                type: 'string',
+                description: 'New description of the work to be done',
+              },
+              estimate: {
+                type: 'number',
+                description: 'New estimate in hours (1-8, prefer 1-4 for good stories)',
+                minimum: 1,
+                maximum: 8,
+              },
+              epic_id: {
+                type: 'number',
+                description: 'Epic ID to move this story to',
+              },
+            },
+            required: ['story_id'],
+          },
+        },
+        {
+          name: 'move_story_to_epic',
+          description: 'Move a story to another epic in the same project',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID to move',
+              },
+              epic_id: {
+                type: 'number',
+                description: 'The epic ID to move the story to',
+              },
+            },
+            required: ['story_id', 'epic_id'],
+          },
+        },
+        {
+          name: 'archive_story',
+          description: 'Archive a story that is no longer needed (e.g. a duplicate). Optionally delete it permanently.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID to archive',
+              },
+              permanently_delete: {
+                type: 'boolean',
+                description: 'Delete the story instead of archiving it. This cannot be undone.',
+              },
+            },
+            required: ['story_id'],
+          },
+        },
+        {
+          name: 'start_timer',
+          description: 'Start tracking time on a story. Timers also start automatically when a story moves to an active state.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID to track time against',
+              },
+            },
+            required: ['story_id'],
+          },
+        },
+        {
+          name: 'stop_timer',
+          description: 'Stop the running timer on a story and record the elapsed time in SoftyPM',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID whose timer to stop',
+              },
+              description: {
+                type: 'string',
+                description: 'Optional summary of the work done',
+              },
+            },
+            required: ['story_id'],
+          },
+        },
+        {
+          name: 'log_time',
+          description: 'Record hours worked on a story without a timer',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID to log time against',
+              },
+              hours: {
+                type: 'number',
+                description: 'Hours worked (e.g. 1.5)',
+                minimum: 0,
+                maximum: 24,
+              },
+              description: {
+                type: 'string',
+                description: 'Optional summary of the work done',
+              },
+              date: {
+                type: 'string',
+                description: 'Date the work was done (YYYY-MM-DD, defaults to today)',
+              },
+            },
+            required: ['story_id', 'hours'],
+          },
+        },
+        {
+          name: 'add_story_comment',
+          description: 'Add a comment to a story, e.g. progress notes, decisions or blockers',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story ID to comment on',
+              },
+              comment: {
+                type: 'string',
+                description: 'Comment text (Markdown supported)',
+              },
+            },
+            required: ['story_id', 'comment'],
+          },
+        },
+        {
+          name: 'list_my_stories',
+          description: 'Search and list stories in the current project with filters, sorting and pagination. Search before creating a story to avoid duplicates.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              status: {
+                type: 'string',
+                enum: [...workflow.statusEnum(), 'all'],
+                description: `Filter by status: ${workflow.statusHelp()}, all=All stories`,
+              },
+              query: {
+                type: 'string',
+                description: 'Text to search for in story names and descriptions (case-insensitive)',
+              },
+              epic_id: {
+                type: 'number',
+                description: 'Only stories in this epic',
+              },
+              min_estimate: {
+                type: 'number',
+                description: 'Only stories estimated at this many hours or more',
+              },
+              max_estimate: {
+                type: 'number',
+                description: 'Only stories estimated at this many hours or fewer',
+              },
+              created_after: {
+                type: 'string',
+                description: 'Only stories created on or after this date (YYYY-MM-DD)',
+              },
+              created_before: {
+                type: 'string',
+                description: 'Only stories created on or before this date (YYYY-MM-DD)',
+              },
+              updated_after: {
+                type: 'string',
+                description: 'Only stories updated on or after this date (YYYY-MM-DD)',
+              },
+              updated_before: {
+                type: 'string',
+                description: 'Only stories updated on or before this date (YYYY-MM-DD)',
+              },
+              include_archived: {
+                type: 'boolean',
+                description: 'Include archived stories (default false)',
+              },
+              sort_by: {
+                type: 'string',
+                enum: [...STORY_SORT_FIELDS],
+                description: 'Field to sort by (default id)',
+              },
+              sort_order: {
+                type: 'string',
+                enum: ['asc', 'desc'],
+                description: 'Sort direction (default asc)',
+              },
+              limit: {
+                type: 'number',
+                description: `Stories per page (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`,
+                minimum: 1,
+                maximum: MAX_PAGE_SIZE,
+              },
+              offset: {
+                type: 'number',
+                description: 'Number of matching stories to skip, for fetching later pages',
+                minimum: 0,
+              },
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+          },
+        },
+        {
+          name: 'list_epics',
+          description: 'List epics in the current project with story counts, estimate totals and completion',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+          },
+        },
+        {
+          name: 'create_epic',
+          description: 'Create a new epic in the current project to group related stories',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Epic title (a feature or theme of work)',
+              },
+              description: {
+                type: 'string',
+                description: 'What this epic delivers',
+              },
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'get_epic',
+          description: 'Get details for a specific epic, including its stories and progress',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              epic_id: {
+                type: 'number',
+                description: 'The epic ID to retrieve',
+              },
+            },
+            required: ['epic_id'],
+          },
+        },
+        {
+          name: 'plan_sprint',
+          description: 'Draft a sprint from the backlog: picks estimated backlog stories in epic priority and backlog order until the capacity is used, and shows committed vs remaining hours. Nothing is saved unless commit is true.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              capacity_hours: {
+                type: 'number',
+                description: 'Hours the team can commit to this sprint',
+              },
+              epic_id: {
+                type: 'number',
+                description: 'Only plan stories from this epic',
+              },
+              commit: {
+                type: 'boolean',
+                description: 'Create the sprint (or use sprint_id) and add the proposed stories to it',
+              },
+              sprint_id: {
+                type: 'number',
+                description: 'Existing sprint to add the stories to when committing',
+              },
+              sprint_name: {
+                type: 'string',
+                description: 'Name for a new sprint when committing (default: "Sprint <start date>")',
+              },
+              starts_on: {
+                type: 'string',
+                description: 'Start date of a new sprint, YYYY-MM-DD (default: next Monday)',
+              },
+              ends_on: {
+                type: 'string',
+                description: 'End date of a new sprint, YYYY-MM-DD (default: the first Friday on or after the start)',
+              },
+              goal: {
+                type: 'string',
+                description: 'Sprint goal for a new sprint',
+              },
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+            required: ['capacity_hours'],
+          },
+        },
+        {
+          name: 'list_sprints',
+          description: 'List sprints in the current project with dates, capacity and committed hours',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+          },
+        },
+        {
+          name: 'get_sprint',
+          description: 'Get a sprint with its stories, committed hours against capacity, and progress',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sprint_id: {
+                type: 'number',
+                description: 'The sprint ID to retrieve',
+              },
+            },
+            required: ['sprint_id'],
+          },
+        },
+        {
+          name: 'project_report',
+          description: 'Burndown, weekly velocity or cycle time (In Progress to Done) for the project or a sprint, as a Markdown table, CSV or ASCII chart',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              report: {
+                type: 'string',
+                enum: [...REPORT_KINDS],
+                description: 'burndown: estimated hours still open each day; velocity: estimated hours finished per week; cycle_time: days from first starting a story to finishing it',
+              },
+              output: {
+                type: 'string',
+                enum: [...REPORT_OUTPUTS],
+                description: 'table (default), csv for spreadsheets, or chart for a plain ASCII bar chart',
+              },
+              from: {
+                type: 'string',
+                description: 'First day, YYYY-MM-DD (default: the sprint start, or four weeks ago)',
+              },
+              to: {
+                type: 'string',
+                description: 'Last day, YYYY-MM-DD (default: the sprint end, or today)',
+              },
+              sprint_id: {
+                type: 'number',
+                description: 'Only report on the stories in this sprint',
+              },
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+            required: ['report'],
+          },
+        },
+        {
+          name: 'export_backlog',
+          description: 'Write the project\'s epics and stories to a local Markdown checklist, CSV or JSON file, e.g. for an offline snapshot',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file: {
+                type: 'string',
+                description: 'Path to write, relative to the workspace root (default: softypm-backlog-<project id>.md)',
+              },
+              file_format: {
+                type: 'string',
+                enum: [...BACKLOG_FILE_FORMATS],
+                description: 'File format (default: from the file extension, or markdown)',
+              },
+              include_done: {
+                type: 'boolean',
+                description: 'Include finished stories (default: true)',
+              },
+              overwrite: {
+                type: 'boolean',
+                description: 'Replace the file if it already exists (default: false)',
+              },
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+          },
+        },
+        {
+          name: 'import_backlog',
+          description: 'Create epics and stories from a Markdown checklist, CSV or JSON file, or the workspace TODO.md / ROADMAP.md. Previews by default; stories whose name already exists in the project are skipped.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file: {
+                type: 'string',
+                description: 'Path to read, relative to the workspace root (default: TODO.md, then ROADMAP.md)',
+              },
+              file_format: {
+                type: 'string',
+                enum: [...BACKLOG_FILE_FORMATS],
+                description: 'File format (default: from the file extension, or markdown)',
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Only preview what would be created (default: true). Pass false to create the stories.',
+              },
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+            },
+          },
+        },
+        {
+          name: 'get_git_context',
+          description: 'Read the local git branch and commits, and find the story they refer to (e.g. story-123 in the branch name, #123 in commit messages)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              start: {
+                type: 'boolean',
+                description: 'Move the detected story into progress if it is still in the backlog',
+              },
+            },
+          },
+        },
+        {
+          name: 'link_commits',
+          description: 'Attach commit SHAs and messages from the local git repo to a story as a comment. Commits already linked are skipped.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'Story ID (default: the story named by the current branch)',
+              },
+              shas: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Commits to link (default: the branch\'s commits for the story)',
+              },
+            },
+          },
+        },
+        {
+          name: 'add_dependency',
+          description: 'Record that a story is blocked by another story, which must be done before it can start. Dependencies that would form a cycle are rejected.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story that has to wait',
+              },
+              blocked_by_story_id: {
+                type: 'number',
+                description: 'The story it waits on',
+              },
+            },
+            required: ['story_id', 'blocked_by_story_id'],
+          },
+        },
+        {
+          name: 'remove_dependency',
+          description: 'Remove a blocked-by relation between two stories',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              story_id: {
+                type: 'number',
+                description: 'The story that was waiting',
+              },
+              blocked_by_story_id: {
+                type: 'number',
+                description: 'The story it no longer waits on',
+              },
+            },
+            required: ['story_id', 'blocked_by_story_id'],
+          },
+        },
+        {
+          name: 'next_story',
+          description: 'Recommend what to work on next: unblocked backlog stories ranked by epic priority, then age, then estimate. Also lists work in progress and blocked stories.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              project_id: {
+                type: 'number',
+                description: 'Project ID (optional if project context is set)',
+              },
+              epic_id: {
+                type: 'number',
+                description: 'Only recommend stories from this epic',
+              },
+              max_estimate: {
+                type: 'number',
+                description: 'Only recommend stories estimated at most this many hours',
+              },
+              limit: {
+                type: 'number',
+                description: 'How many stories to recommend (default: 3, max: 10)',
+              },
+            },
+          },
+        },
+        {
+          name: 'recent_changes',
+          description: 'List the changes made through this server from the local audit log, newest first, with what can be undone',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              limit: {
+                type: 'number',
+                description: 'How many changes to show (default: 10, max: 100)',
+              },
+              story_id: {
+                type: 'number',
+                description: 'Only changes to this story',
+              },
+              tool: {
+                type: 'string',
+                description: 'Only changes made by this tool, e.g. update_story_status',
+              },
+            },
+          },
+        },
+        {
+          name: 'undo_last_change',
+          description: 'Revert the newest change that has not been undone yet: a status transition, created stories, story edits or dependencies. Refuses if the story has changed since.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              change_id: {
+                type: 'number',
+                description: 'Undo this change from recent_changes instead of the newest one',
+              },
+            },
+          },
+        },
+        {
+          name: 'switch_profile',
+          description: 'Switch to another SoftyPM account or instance from the profiles file. Call without a profile to list them.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              profile: {
+                type: 'string',
+                description: 'Profile name to switch to',
+                enum: Object.keys(this.profileConfig.profiles),
+              },
+            },
+          },
+        },
+        {
+          name: 'sync_status',
+          description: 'Show whether SoftyPM is reachable, which changes are queued from offline work, and any sync conflicts',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              replay: {
+                type: 'boolean',
+                description: 'Try to send queued changes to SoftyPM now',
+              },
+              discard: {
+                type: 'string',
+                description: 'ID of a queued change to drop, e.g. one that conflicts with a server-side edit',
+              },
+            },
+          },
+        },
+      ];
+
+      // Every tool can answer in Markdown or JSON; tools the policy disables aren't offered at all
+      return {
+        tools: tools.filter(tool => !toolDisabledReason(this.policy, tool.name)).map(tool => ({
+          ...tool,
+          inputSchema: {
+            ...tool.inputSchema,
+            properties: { ...tool.inputSchema.properties, format: OUTPUT_FORMAT_PROPERTY },
+          },
+        })),
+      };
+    });
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const { output, format, notices } = await this.runTool(name, args);
+      return renderToolOutput(name, output, format, notices);
+    });
+  }
+
+  // Run a tool outside MCP, e.g. from the CLI, with the same validation and side effects as an agent's call
+  async runTool(name: string, args: Record<string, unknown> = {}): Promise<ToolRun> {
+    try {
+      const format = this.outputFormat(args);
+      this.checkPolicy(name, args);
+      await this.checkProjectAccess(name, args);
+      if (name !== 'sync_status') {
+        await this.replayPendingWrites();
+      }
+      const output = this.policy.dry_run && isWrite(name, args)
+        ? await this.dryRun(name, args)
+        : await this.callTool(name, args);
+      return { output, format, notices: this.statusNotices() };
+    } catch (error) {
+      throw toMcpError(error, `Tool execution failed`);
+    }
+  }
+
+  // Refuse calls the policy doesn't allow, before anything is read or written
+  private checkPolicy(name: string, args: Record<string, unknown>): void {
+    const disabled = toolDisabledReason(this.policy, name);
+    if (disabled) {
+      throw new McpError(ErrorCode.InvalidRequest, `${name} is disabled because ${disabled}.`);
+    }
+
+    if (this.policy.read_only && isWrite(name, args)) {
+      const preview = Object.keys(previewArguments(name, {}) || {});
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `The server is read-only, so ${name} can't make changes. Leave out ${preview.join(', ')} to preview instead.`
+      );
+    }
+
+    if (typeof args.project_id === 'number') {
+      this.requireAllowedProject(args.project_id);
+    }
+  }
+
+  // Writes that name a story or epic are checked against the project it belongs to
+  private async checkProjectAccess(name: string, args: Record<string, unknown>): Promise<void> {
+    if (!this.policy.allowed_project_ids || !isWrite(name, args)) {
+      return;
+    }
+
+    for (const key of ['story_id', 'blocked_by_story_id']) {
+      const storyId = args[key];
+      if (typeof storyId === 'number') {
+        const story = await this.softYPMClient.getStory(storyId);
+        this.requireAllowedProject(story.project_id, `Story ${storyId}`);
+      }
+    }
+    if (typeof args.epic_id === 'number') {
+      const epic = await this.softYPMClient.getEpic(args.epic_id);
+      this.requireAllowedProject(epic.project_id, `Epic ${args.epic_id}`);
+    }
+  }
+
+  private requireAllowedProject(projectId: number, owner?: string): void {
+    if (!isProjectAllowed(this.policy, projectId)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${owner ? `${owner} belongs to project ${projectId}, which` : `Project ${projectId}`} is not allowed by the policy. Allowed projects: ${this.policy.allowed_project_ids!.join(', ')}`
+      );
+    }
+  }
+
+  // Tools with a preview of their own run it; the rest only describe the call, without touching SoftyPM
+  private async dryRun(name: string, args: Record<string, unknown>): Promise<ToolOutput> {
+    const preview = previewArguments(name, args);
+    if (preview) {
+      return await this.callTool(name, preview);
+    }
+
+    const data: DryRun = {
+      outcome: 'dry_run',
+      tool: name,
+      arguments: Object.fromEntries(Object.entries(args).filter(([key]) => key !== 'format')),
+      // Story tools act on the story's own project, so the context only applies to the others
+      project_id: typeof args.project_id === 'number' ? args.project_id : args.story_id === undefined ? this.currentProjectId : null,
+      policy_path: this.policy.path,
+    };
+    return { data, markdown: formatDryRun(data) };
+  }
+
+  // Configuration and connectivity checks for the active profile, behind `softypm doctor`
+  async doctor(): Promise<DoctorCheck[]> {
+    const profile = this.profileConfig.profiles[this.activeProfile];
+    let apiToken = this.options.client?.apiToken || '';
+    let tokenError: string | undefined;
+    if (!apiToken) {
+      try {
+        apiToken = resolveProfileToken(this.activeProfile, profile);
+      } catch (error) {
+        tokenError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return runDoctor({
+      profile: this.activeProfile,
+      baseUrl: this.options.client?.baseURL || profile.base_url,
+      apiToken,
+      tokenError,
+      client: () => this.softYPMClient,
+      projectId: this.currentProjectId,
+      projectSource: this.currentProjectSource,
+      loadWorkflow: async projectId => this.localWorkflow || fetchProjectWorkflow(this.softYPMClient, projectId),
+    });
+  }
+
+  // The tool's `format` argument, else SOFTYPM_OUTPUT_FORMAT, else Markdown
+  private outputFormat(args: unknown): OutputFormat {
+    const { format } = OutputFormatSchema.parse(args || {});
+    if (format) {
+      return format;
+    }
+
+    const configured = process.env.SOFTYPM_OUTPUT_FORMAT;
+    if (configured && !(OUTPUT_FORMATS as readonly string[]).includes(configured)) {
+      throw new McpError(ErrorCode.InternalError, `Unknown SOFTYPM_OUTPUT_FORMAT "${configured}". Use ${OUTPUT_FORMATS.join(' or ')}.`);
+    }
+    return (configured as OutputFormat) || 'markdown';
+  }
+
+  private async callTool(name: string, args: any): Promise<ToolOutput> {
+    switch (name) {
+      case 'set_project_context':
+        return await this.setProjectContext(args);
+      
+      case 'clear_project_context':
+        return await this.clearProjectContext();
+      
+      case 'list_projects':
+        return await this.listProjects();
+      
+      case 'find_project':
+        return await this.findProject(args);
+      
+      case 'get_project_info':
+        return await this.getProjectInfo(args);
+      
+      case 'create_story':
+        return await this.createStory(args);
+      
+      case 'create_stories':
+        return await this.createStories(args);
+      
+      case 'split_story':
+        return await this.splitStory(args);
+      
+      case 'update_story_status':
+        return await this.updateStoryStatus(args);
+      
+      case 'get_story':
+        return await this.getStory(args);
+      
+      case 'update_story':
+        return await this.updateStory(args);
+      
+      case 'move_story_to_epic':
+        return await this.moveStoryToEpic(args);
+      
+      case 'archive_story':
+        return await this.archiveStory(args);
+      
+      case 'start_timer':
+        return await this.startTimer(args);
+      
+      case 'stop_timer':
+        return await this.stopTimer(args);
+      
+      case 'log_time':
+        return await this.logTime(args);
+      
+      case 'add_story_comment':
+        return await this.addStoryComment(args);
+      
+      case 'list_my_stories':
+        return await this.listStories(args);
+      
+      case 'list_epics':
+        return await this.listEpics(args);
+      
+      case 'create_epic':
+        return await this.createEpic(args);
+      
+      case 'get_epic':
+        return await this.getEpic(args);
+      
+      case 'plan_sprint':
+        return await this.planSprint(args);
+      
+      case 'list_sprints':
+        return await this.listSprints(args);
+      
+      case 'get_sprint':
+        return await this.getSprint(args);
+      
+      case 'project_report':
+        return await this.projectReport(args);
+      
+      case 'export_backlog':
+        return await this.exportBacklog(args);
+      
+      case 'import_backlog':
+        return await this.importBacklog(args);
+      
+      case 'get_git_context':
+        return await this.getGitContext(args);
+      
+      case 'link_commits':
+        return await this.linkCommits(args);
+      
+      case 'add_dependency':
+        return await this.addDependency(args);
+      
+      case 'remove_dependency':
+        return await this.removeDependency(args);
+      
+      case 'next_story':
+        return await this.nextStory(args);
+      
+      case 'recent_changes':
+        return await this.recentChanges(args);
+      
+      case 'undo_last_change':
+        return await this.undoLastChange(args);
+      
+      case 'switch_profile':
+        return await this.switchProfile(args);
+      
+      case 'sync_status':
+        return await this.syncStatus(args);
+      
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+    }
+  }
+
+  // Replay queued offline writes once SoftyPM may be reachable again, without slowing down every call
+  private async replayPendingWrites(): Promise<SyncReport | null> {
+    // Queued changes would reach SoftyPM like any other write
+    if (this.policy.read_only || this.policy.dry_run) {
+      return null;
+    }
+
+    const pending = this.softYPMClient.pendingWrites.filter(write => !write.conflict);
+    if (pending.length === 0 || Date.now() - this.lastReplayAt < AUTO_REPLAY_INTERVAL_MS) {
+      return null;
+    }
+
+    this.lastReplayAt = Date.now();
+    try {
+      return await this.syncPendingWrites();
+    } catch (error) {
+      console.error('Replaying queued writes failed:', error);
+      return null;
+    }
+  }
+
+  // Replay the queue, then move audit entries for stories created offline over to their real IDs
+  private async syncPendingWrites(): Promise<SyncReport> {
+    const report = await this.softYPMClient.syncPendingWrites();
+    try {
+      this.auditLog.resolveStoryIds(new Map(report.resolved_ids.map(({ temp_id, id }) => [temp_id, id])));
+    } catch (error) {
+      console.error(`Failed to update audit log ${this.auditLog.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return report;
+  }
+
+  // Shown with every tool response: the active profile, so writes can't silently go to the wrong account, and offline state
+  private statusNotices(): StatusNotices {
+    const offlineSince = this.softYPMClient.offlineSince;
+    return {
+      ...(this.profileConfig.configured
+        ? { profile: { name: this.activeProfile, host: new URL(this.profileSession(this.activeProfile).profile.base_url).host } }
+        : {}),
+      ...(offlineSince ? { offline_since: offlineSince.toISOString() } : {}),
+      queued_changes: this.softYPMClient.pendingWrites.length,
+      ...(this.policy.read_only ? { mode: 'read_only' as const } : this.policy.dry_run ? { mode: 'dry_run' as const } : {}),
+    };
+  }
+
+  private setupResourceHandlers() {
+    // Advertise the current project's resources; anything else is reachable via templates
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      if (!this.currentProjectId) {
+        return { resources: [] };
+      }
+
+      return {
+        resources: listProjectResources(this.currentProjectId),
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: RESOURCE_TEMPLATES,
+      };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+
+      try {
+        return await readResource(
+          this.softYPMClient,
+          uri,
+          projectId => this.getWorkflow(projectId),
+          (projectId, owner) => this.requireAllowedProject(projectId, owner)
+        );
+      } catch (error) {
+        throw toMcpError(error, `Failed to read resource ${uri}`);
+      }
+    });
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: PROMPTS,
+      };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        return await getPrompt(
+          this.softYPMClient,
+          name,
+          args,
+          this.currentProjectId,
+          projectId => this.getWorkflow(projectId),
+          (projectId, owner) => this.requireAllowedProject(projectId, owner)
+        );
+      } catch (error) {
+        throw toMcpError(error, `Failed to get prompt ${name}`);
+      }
+    });
+  }
+
+  private async setProjectContext(args: any): Promise<ToolOutput<ProjectContextSet>> {
+    const { project_id } = SetProjectContextSchema.parse(args);
+
+    try {
+      // Verify project exists and user has access
+      const project = await this.softYPMClient.getProject(project_id);
+      const workflow = await this.getWorkflow(project_id);
+      this.currentProjectId = project_id;
+      this.currentProjectSource = 'state';
+      this.projectContextStore.save(project_id);
+
+      const data = { project, workspace_root: this.projectContextStore.workspaceRoot, workflow: workflow.definition };
+      return { data, markdown: formatProjectContextSet(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to set project context`);
+    }
+  }
+
+  private async clearProjectContext(): Promise<ToolOutput<ProjectContextCleared>> {
+    this.projectContextStore.clear();
+    this.restoreProjectContext();
+
+    const data = { project_id: this.currentProjectId, source: this.currentProjectSource };
+    return { data, markdown: formatProjectContextCleared(data) };
+  }
+
+  private async listProjects(): Promise<ToolOutput<ProjectList>> {
+    try {
+      const data = { projects: await this.softYPMClient.listProjects() };
+      return { data, markdown: formatProjectList(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to list projects`);
+    }
+  }
+
+  private async findProject(args: any): Promise<ToolOutput<ProjectList>> {
+    const { query } = FindProjectSchema.parse(args);
+    const needle = query.toLowerCase();
+
+    try {
+      const projects = await this.softYPMClient.listProjects();
+      const matches = projects.filter(project =>
+        project.name.toLowerCase().includes(needle) ||
+        (project.client?.name || '').toLowerCase().includes(needle)
+      );
+
+      const data = { query, projects: matches };
+      return { data, markdown: formatProjectList(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to find project`);
+    }
+  }
+
+  private async getProjectInfo(args: any): Promise<ToolOutput<ProjectInfo>> {
+    const { project_id } = GetProjectSchema.parse(args);
+    const projectId = project_id || this.currentProjectId;
+
+    if (!projectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    try {
+      const project = await this.softYPMClient.getProject(projectId);
+      const stories = await this.softYPMClient.getProjectStories(projectId);
+      const workflow = await this.getWorkflow(projectId);
+      // Epics only refine the order of the suggestions, so a failure there shouldn't hide the project
+      const epics = await this.softYPMClient.getProjectEpics(projectId).catch(() => []);
+
+      const backlogStories = stories.filter(s => workflow.isCategory(s.status, 'backlog'));
+      const inProgressStories = stories.filter(s => workflow.isCategory(s.status, 'active'));
+      const doneStories = stories.filter(s => workflow.isCategory(s.status, 'done'));
+
+      // Suggestions follow next_story, including blockers in other projects
+      const outside = inProgressStories.length > 0 ? null : await this.loadOutsideBlockers(stories, backlogStories);
+
+      const data: ProjectInfo = {
+        project,
+        context_source: project_id ? 'argument' : this.currentProjectSource || 'state',
+        story_counts: { backlog: backlogStories.length, active: inProgressStories.length, done: doneStories.length },
+        next_stories: !outside
+          ? inProgressStories.slice(0, 3)
+          : recommendNext(stories, epics, workflow, { limit: 3, blockers: outside.blockers, deletedBlockers: outside.deleted })
+            .recommended.map(item => item.story),
+        workflow: workflow.definition,
+      };
+      return { data, markdown: formatProjectInfo(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to get project info`);
+    }
+  }
+
+  // Stories over 6h are rejected with breakdown guidance instead of being saved
+  private checkStorySize(name: string, estimate?: number): ToolOutput<StoryTooLarge> | null {
+    if (estimate && estimate > MAX_STORY_ESTIMATE) {
+      const data: StoryTooLarge = { outcome: 'too_large', name, estimate, max_estimate: MAX_STORY_ESTIMATE };
+      return { data, markdown: formatStoryTooLarge(data) };
+    }
+
+    return null;
+  }
+
+  private async createStory(args: any): Promise<ToolOutput<StoryCreated>> {
+    const { name, description, estimate, epic_id, project_id } = CreateStorySchema.parse(args);
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    // Validate story size
+    const sizeWarning = this.checkStorySize(name, estimate);
+    if (sizeWarning) {
+      return sizeWarning;
+    }
+
+    try {
+      const workflow = await this.requireWorkflow(targetProjectId);
+      const story = await this.softYPMClient.createStory({
+        name,
+        description,
+        estimate,
+        epic_id,
+        project_id: targetProjectId,
+        status: workflow.initialState.id, // Start in backlog
+      });
+
+      const data: StoryCreated = {
+        outcome: story.pending_sync ? 'queued' : 'created',
+        story: { description, estimate, ...story },
+        status: workflow.initialState,
+      };
+      this.recordChange('create_story', args, {
+        summary: `Created #${story.id} ${story.name}`,
+        story_ids: [story.id],
+        before: null,
+        after: data.story,
+        undo: { kind: 'archive', stories: [{ id: story.id, status: story.status }] },
+      });
+      return { data, markdown: formatStoryCreated(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to create story`);
+    }
+  }
+
+  // Validate every draft up front so a batch is either fully valid or not attempted
+  private validateStoryDrafts(drafts: StoryDraft[]): string[] {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    drafts.forEach((draft, index) => {
+      const label = `${index + 1}. "${draft.name}"`;
+      const key = normalizeStoryName(draft.name);
+
+      if (seen.has(key)) {
+        errors.push(`${label}: duplicate name in this batch`);
+      }
+      seen.add(key);
+
+      if (draft.estimate && draft.estimate > MAX_STORY_ESTIMATE) {
+        errors.push(`${label}: estimated at ${draft.estimate}h, stories must be ${MAX_STORY_ESTIMATE}h or less (prefer 1-4h)`);
+      }
+    });
+
+    return errors;
+  }
+
+  // Create drafts one by one, skipping any whose name already exists in the same epic/parent
+  private async createStoriesIdempotently(
+    drafts: StoryDraft[],
+    target: { projectId: number; epicId?: number; parentStoryId?: number }
+  ): Promise<StoryBatchResult[]> {
+    const workflow = await this.requireWorkflow(target.projectId);
+    const existingStories = await this.softYPMClient.getProjectStories(target.projectId);
+    const existingByName = new Map<string, Story>();
+    existingStories
+      .filter(story => !story.archived_at)
+      .filter(story => target.parentStoryId
+        ? story.parent_story_id === target.parentStoryId
+        : (story.epic_id || undefined) === target.epicId)
+      .forEach(story => existingByName.set(normalizeStoryName(story.name), story));
+
+    const results: StoryBatchResult[] = [];
+    for (const draft of drafts) {
+      const existing = existingByName.get(normalizeStoryName(draft.name));
+      if (existing) {
+        results.push({ draft, outcome: 'existing', story: existing });
+        continue;
+      }
+
+      try {
+        const story = await this.softYPMClient.createStory({
+          ...draft,
+          epic_id: target.epicId,
+          parent_story_id: target.parentStoryId,
+          project_id: target.projectId,
+          status: workflow.initialState.id,
+        });
+        results.push({ draft, outcome: 'created', story });
+      } catch (error) {
+        results.push({ draft, outcome: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return results;
+  }
+
+  private async createStories(args: any): Promise<ToolOutput<StoriesCreated>> {
+    const { stories, epic_id, project_id } = CreateStoriesSchema.parse(args);
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    const validationErrors = this.validateStoryDrafts(stories);
+    if (validationErrors.length > 0) {
+      const data: StoriesCreated = { outcome: 'invalid', problems: validationErrors };
+      return { data, markdown: formatStoriesCreated(data) };
+    }
+
+    try {
+      const results = await this.createStoriesIdempotently(stories, { projectId: targetProjectId, epicId: epic_id });
+      const created = results.filter(r => r.outcome === 'created');
+      const failed = results.filter(r => r.outcome === 'failed');
+
+      const data: StoriesCreated = {
+        outcome: failed.length > 0 ? 'partial' : 'completed',
+        epic_id,
+        created: created.length,
+        skipped: results.filter(r => r.outcome === 'existing').length,
+        failed: failed.length,
+        created_hours: created.reduce((sum, r) => sum + (r.draft.estimate || 0), 0),
+        results,
+      };
+      if (created.length > 0) {
+        const createdStories = created.map(r => r.story!);
+        this.recordChange('create_stories', args, {
+          summary: `Created ${createdStories.length} stories: ${createdStories.map(story => `#${story.id}`).join(', ')}`,
+          story_ids: createdStories.map(story => story.id),
+          before: null,
+          after: createdStories,
+          undo: { kind: 'archive', stories: createdStories.map(story => ({ id: story.id, status: story.status })) },
+        });
+      }
+      return { data, markdown: formatStoriesCreated(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to create stories`);
+    }
+  }
+
+  private async splitStory(args: any): Promise<ToolOutput<StorySplit>> {
+    const { story_id, stories, keep_original } = SplitStorySchema.parse(args);
+
+    const validationErrors = this.validateStoryDrafts(stories);
+    if (validationErrors.length > 0) {
+      const data: StorySplit = { outcome: 'invalid', problems: validationErrors };
+      return { data, markdown: formatStorySplit(data) };
+    }
+
+    try {
+      const original = await this.softYPMClient.getStory(story_id);
+      const drafts = stories.map(draft => ({
+        ...draft,
+        description: `${draft.description ? `${draft.description}\n\n` : ''}Split from #${original.id}: ${original.name}`,
+      }));
+
+      const results = await this.createStoriesIdempotently(drafts, {
+        projectId: original.project_id,
+        epicId: original.epic_id,
+        parentStoryId: original.id,
+      });
+      const failed = results.filter(r => r.outcome === 'failed');
+      const children = results.filter(r => r.story).map(r => r.story!);
+      const data: StorySplit = {
+        outcome: failed.length > 0 ? 'partial' : 'split',
+        original,
+        children,
+        child_hours: results.reduce((sum, r) => sum + (r.draft.estimate || 0), 0),
+        results,
+        original_action: 'unchanged',
+      };
+
+      // Only retire the original once every child exists, so a partial split can be retried
+      if (failed.length === 0) {
+        try {
+          await this.softYPMClient.addStoryComment(original.id, `Split into ${children.map(child => `#${child.id}`).join(', ')}`);
+        } catch (error) {
+          data.comment_error = error instanceof Error ? error.message : String(error);
+        }
+
+        if (!keep_original && !original.archived_at) {
+          await this.softYPMClient.archiveStory(original.id);
+          data.original_action = 'archived';
+        } else {
+          data.original_action = 'kept';
+        }
+      }
+
+      const created = results.filter(r => r.outcome === 'created').map(r => r.story!);
+      if (created.length > 0 || data.original_action === 'archived') {
+        const archived = data.original_action === 'archived';
+        this.recordChange('split_story', args, {
+          summary: `Split #${original.id} ${original.name} into ${children.map(child => `#${child.id}`).join(', ')}${archived ? ' and archived it' : ''}`,
+          story_ids: [original.id, ...created.map(story => story.id)],
+          before: original,
+          after: { children, original_action: data.original_action },
+          // Archived stories can't be restored through the API, so only a split that kept the original can be undone
+          undo: archived ? undefined : { kind: 'archive', stories: created.map(story => ({ id: story.id, status: story.status })) },
+        });
+      }
+
+      return { data, markdown: formatStorySplit(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to split story`);
+    }
+  }
+
+  private async updateStoryStatus(args: any): Promise<ToolOutput<StatusTransition>> {
+    const { story_id, status, notes, include_commits } = UpdateStoryStatusSchema.parse(args);
+
+    try {
+      // Get current story status to validate workflow
+      const currentStory = await this.softYPMClient.getStory(story_id);
+      const currentStatus = currentStory.status;
+      const workflow = await this.requireWorkflow(currentStory.project_id);
+
+      let targetStatus: number;
+      try {
+        targetStatus = workflow.resolveStatus(status);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+
+      const from = workflow.stateSummary(currentStatus);
+      const to = workflow.stateSummary(targetStatus);
+
+      // Validate workflow progression and any guard rules
+      const check = workflow.checkTransition(currentStatus, targetStatus, { story: currentStory, notes });
+      if (!check.allowed) {
+        const data: StatusTransition = {
+          outcome: 'rejected',
+          story: currentStory,
+          from,
+          to,
+          reason: check.reason,
+          valid_next: workflow.nextStates(currentStatus),
+        };
+        return { data, markdown: formatStatusTransition(data, workflow) };
+      }
+
+      // Read git before changing anything, so a repo problem doesn't leave a half-finished transition
+      const commits = include_commits && to.category === 'done' ? await this.storyCommits(story_id) : [];
+
+      // Save notes and commits as a comment so they stay in the story's audit trail; offline it's queued with the status
+      const comment = notes || commits.length > 0
+        ? [
+          `**${from.name} → ${to.name}**${notes ? `: ${notes}` : ''}`,
+          ...(commits.length > 0 ? [formatCommitComment(commits)] : []),
+        ].join('\n\n')
+        : undefined;
+
+      const { queued } = await this.softYPMClient.updateStoryStatus(story_id, targetStatus, currentStatus, comment);
+      const data: StatusTransition = {
+        outcome: queued ? 'queued' : 'updated',
+        story: { ...currentStory, status: targetStatus },
+        from,
+        to,
+        notes,
+      };
+      if (commits.length > 0) {
+        data.commits = commits;
+      }
+      if (to.category === 'active' && from.category !== 'active') {
+        // Starting blocked work is allowed, but worth a warning
+        const { blockers, unknown_blockers } = await this.openBlockersOf(currentStory, workflow);
+        data.open_blockers = blockers;
+        if (unknown_blockers.length > 0) {
+          data.unknown_blockers = unknown_blockers;
+        }
+      }
+
+      if (comment && !queued) {
+        try {
+          await this.softYPMClient.addStoryComment(story_id, comment);
+          data.notes_saved = notes ? true : undefined;
+          data.commits_linked = commits.length > 0 ? true : undefined;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (notes) {
+            data.notes_saved = false;
+            data.notes_error = message;
+          }
+          if (commits.length > 0) {
+            data.commits_linked = false;
+            data.commits_error = message;
+          }
+        }
+      }
+
+      // Time tracking follows the workflow: entering active work starts a timer, leaving it for Done or Backlog stops it
+      const wasActive = workflow.isCategory(currentStatus, 'active');
+      const isActive = workflow.isCategory(targetStatus, 'active');
+      if (story_id < 0) {
+        // Placeholder IDs change on sync, so timers wait until the story exists in SoftyPM
+      } else if (isActive && !wasActive) {
+        const { alreadyRunning } = this.timeTracker.start(story_id);
+        data.timer = { action: alreadyRunning ? 'already_running' : 'started' };
+      } else if (!isActive && this.timeTracker.get(story_id)) {
+        data.timer = { action: 'stopped', ...await this.stopAndLogTimer(story_id, notes) };
+      }
+
+      this.recordChange('update_story_status', args, {
+        summary: `#${story_id} ${currentStory.name}: ${from.name} → ${to.name}`,
+        story_ids: [story_id],
+        before: currentStory,
+        after: { ...data.story, timer: data.timer },
+        undo: { kind: 'status', story_id, status: currentStatus, expected_status: targetStatus },
+      });
+
+      return { data, markdown: formatStatusTransition(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to update story status`);
+    }
+  }
+
+  private async getStory(args: any): Promise<ToolOutput<StoryDetails>> {
+    const { story_id } = z.object({ story_id: z.number() }).parse(args);
+
+    try {
+      const story = await this.softYPMClient.getStory(story_id);
+      const workflow = await this.getWorkflow(story.project_id);
+
+      // Comments and history are supplementary, so a failure there shouldn't hide the story
+      const [commentsResult, activityResult, timeEntriesResult] = await Promise.allSettled([
+        this.softYPMClient.getStoryComments(story_id),
+        this.softYPMClient.getStoryActivity(story_id),
+        this.softYPMClient.getTimeEntries(story_id),
+      ]);
+
+      const data: StoryDetails = {
+        story,
+        status: workflow.stateSummary(story.status),
+        next_states: workflow.nextStates(story.status),
+      };
+
+      const runningTimer = this.timeTracker.get(story_id);
+      if (timeEntriesResult.status === 'fulfilled' || runningTimer) {
+        const loggedHours = timeEntriesResult.status === 'fulfilled'
+          ? timeEntriesResult.value.reduce((sum, entry) => sum + (entry.hours || 0), 0)
+          : 0;
+        const runningHours = runningTimer ? elapsedHours(runningTimer.started_at) : 0;
+        data.time = { actual_hours: loggedHours + runningHours, timer_started_at: runningTimer?.started_at };
+      }
+
+      if (activityResult.status === 'fulfilled') {
+        data.status_history = activityResult.value
+          .filter(a => a.to_status !== undefined && a.to_status !== null)
+          .slice(-5);
+      }
+
+      if (commentsResult.status === 'fulfilled') {
+        data.comments = commentsResult.value.slice(-5);
+      }
+
+      return { data, markdown: formatStoryDetails(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to get story`);
+    }
+  }
+
+  private async updateStory(args: any): Promise<ToolOutput<StoryUpdated>> {
+    const { story_id, ...patch } = UpdateStorySchema.parse(args);
+
+    if (Object.values(patch).every(value => value === undefined)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Nothing to update. Provide at least one of name, description, estimate or epic_id.'
+      );
+    }
+
+    try {
+      const currentStory = await this.softYPMClient.getStory(story_id);
+
+      const sizeWarning = this.checkStorySize(patch.name || currentStory.name, patch.estimate);
+      if (sizeWarning) {
+        return sizeWarning;
+      }
+      if (patch.epic_id !== undefined && patch.epic_id !== currentStory.epic_id) {
+        await this.epicForStory(patch.epic_id, currentStory);
+      }
+
+      const updated = await this.softYPMClient.updateStory(story_id, patch);
+      const data: StoryUpdated = {
+        outcome: 'updated',
+        story: { ...currentStory, ...patch, ...updated },
+        previous: currentStory,
+        changes: patch,
+      };
+      this.recordChange('update_story', args, {
+        summary: `#${story_id} ${currentStory.name}: updated ${Object.keys(patch).filter(key => patch[key as keyof typeof patch] !== undefined).join(', ')}`,
+        story_ids: [story_id],
+        before: currentStory,
+        after: data.story,
+        undo: this.restoreFieldsPlan(currentStory, patch),
+      });
+      return { data, markdown: formatStoryUpdated(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to update story`);
+    }
+  }
+
+  // A story can only go into an epic of its own project
+  private async epicForStory(epicId: number, story: Story): Promise<Epic> {
+    const epic = await this.softYPMClient.getEpic(epicId);
+    if (epic.project_id && epic.project_id !== story.project_id) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Epic #${epicId} belongs to project #${epic.project_id}, but story #${story.id} is in project #${story.project_id}.`
+      );
+    }
+    return epic;
+  }
+
+  private async moveStoryToEpic(args: any): Promise<ToolOutput<StoryMoved>> {
+    const { story_id, epic_id } = MoveStoryToEpicSchema.parse(args);
+
+    try {
+      const story = await this.softYPMClient.getStory(story_id);
+      const epic = await this.epicForStory(epic_id, story);
+
+      const moved = story.epic_id !== epic_id;
+      if (moved) {
+        await this.softYPMClient.updateStory(story_id, { epic_id });
+        this.recordChange('move_story_to_epic', args, {
+          summary: `#${story_id} ${story.name}: moved to epic #${epic_id} ${epic.name}`,
+          story_ids: [story_id],
+          before: story,
+          after: { ...story, epic_id },
+          undo: this.restoreFieldsPlan(story, { epic_id }),
+        });
+      }
+
+      const data: StoryMoved = { moved, story: { ...story, epic_id }, epic, previous_epic_id: story.epic_id || null };
+      return { data, markdown: formatStoryMoved(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to move story`);
+    }
+  }
+
+  private async archiveStory(args: any): Promise<ToolOutput<StoryArchived>> {
+    const { story_id, permanently_delete } = ArchiveStorySchema.parse(args);
+
+    try {
+      const story = await this.softYPMClient.getStory(story_id);
+
+      if (permanently_delete) {
+        await this.softYPMClient.deleteStory(story_id);
+      } else {
+        await this.softYPMClient.archiveStory(story_id);
+      }
+
+      const data: StoryArchived = { action: permanently_delete ? 'deleted' : 'archived', story };
+      this.recordChange('archive_story', args, {
+        summary: `${permanently_delete ? 'Deleted' : 'Archived'} #${story.id} ${story.name}`,
+        story_ids: [story.id],
+        before: story,
+        after: null,
+      });
+      return { data, markdown: formatStoryArchived(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to ${permanently_delete ? 'delete' : 'archive'} story`);
+    }
+  }
+
+  private async switchProfile(args: any): Promise<ToolOutput<ProfileStatus>> {
+    const { profile } = SwitchProfileSchema.parse(args || {});
+
+    if (!this.profileConfig.configured) {
+      const data: ProfileStatus = { outcome: 'single' };
+      return { data, markdown: formatProfileStatus(data) };
+    }
+
+    if (!profile) {
+      const data: ProfileStatus = {
+        outcome: 'listed',
+        path: this.profileConfig.path,
+        profiles: Object.entries(this.profileConfig.profiles).map(([name, definition]) => ({
+          name,
+          base_url: definition.base_url,
+          description: definition.description,
+          active: name === this.activeProfile,
+        })),
+      };
+      return { data, markdown: formatProfileStatus(data) };
+    }
+
+    // Build the session first so a missing token fails the switch instead of leaving a broken profile active
+    const session = this.profileSession(profile);
+    this.activeProfile = profile;
+    this.activeProfileStore.save(profile);
+    this.restoreProjectContext();
+
+    const data: ProfileStatus = {
+      outcome: 'switched',
+      profile,
+      base_url: session.profile.base_url,
+      reachable: await session.client.healthCheck(),
+      project_id: this.currentProjectId,
+      context_source: this.currentProjectSource,
+    };
+    return { data, markdown: formatProfileStatus(data) };
+  }
+
+  private async syncStatus(args: any): Promise<ToolOutput<SyncStatus>> {
+    const { replay, discard } = SyncStatusSchema.parse(args || {});
+    const data: SyncStatus = { offline_since: null, pending: [] };
+
+    if (discard) {
+      if (!this.offlineStore.removeWrite(discard)) {
+        throw new McpError(ErrorCode.InvalidParams, `No queued change with ID ${discard}`);
+      }
+      data.discarded = discard;
+    }
+
+    if (replay) {
+      this.lastReplayAt = Date.now();
+      data.replay = await this.syncPendingWrites();
+    }
+
+    data.offline_since = this.softYPMClient.offlineSince?.toISOString() ?? null;
+    data.pending = this.offlineStore.pendingWrites();
+
+    if (this.currentProjectId) {
+      const cached = this.offlineStore.getProjectStories(this.currentProjectId);
+      data.cache = {
+        project_id: this.currentProjectId,
+        stories: cached ? cached.data.length : null,
+        cached_at: cached ? cached.cached_at : null,
+      };
+    }
+
+    return { data, markdown: formatSyncStatus(data) };
+  }
+
+  // Stop a story's timer and push the entry; the timer is only discarded once SoftyPM has it
+  private async stopAndLogTimer(storyId: number, description?: string): Promise<TimerStop> {
+    const stopped: StoppedTimer | null = this.timeTracker.measure(storyId);
+    if (!stopped) {
+      return { outcome: 'not_running' };
+    }
+
+    if (stopped.hours <= 0) {
+      this.timeTracker.discard(storyId);
+      return { outcome: 'discarded' };
+    }
+
+    try {
+      await this.softYPMClient.logTime(storyId, {
+        hours: stopped.hours,
+        description,
+        started_at: stopped.started_at,
+        ended_at: stopped.ended_at,
+      });
+      this.timeTracker.discard(storyId);
+      return { outcome: 'logged', hours: stopped.hours };
+    } catch (error) {
+      return { outcome: 'failed', hours: stopped.hours, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async startTimer(args: any): Promise<ToolOutput<TimerStarted>> {
+    const { story_id } = TimerSchema.parse(args);
+
+    try {
+      const story = await this.softYPMClient.getStory(story_id);
+      const { timer, alreadyRunning } = this.timeTracker.start(story_id);
+      if (!alreadyRunning) {
+        this.recordChange('start_timer', args, {
+          summary: `Started a timer on #${story.id} ${story.name}`,
+          story_ids: [story.id],
+          before: null,
+          after: timer,
+          undo: { kind: 'timer', story_id: story.id, started_at: timer.started_at },
+        });
+      }
+
+      const data: TimerStarted = {
+        story,
+        started_at: timer.started_at,
+        already_running: alreadyRunning,
+        elapsed_hours: elapsedHours(timer.started_at),
+      };
+      return { data, markdown: formatTimerStarted(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to start timer`);
+    }
+  }
+
+  private async stopTimer(args: any): Promise<ToolOutput<TimerStopped>> {
+    const { story_id, description } = TimerSchema.parse(args);
+
+    if (!this.timeTracker.get(story_id)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `No timer is running for story #${story_id}. Use start_timer first, or log_time to record hours directly.`
+      );
+    }
+
+    const data: TimerStopped = { story_id, ...await this.stopAndLogTimer(story_id, description) };
+    // A failed stop leaves the timer running, so only a logged or discarded timer is a change
+    if (data.outcome === 'logged' || data.outcome === 'discarded') {
+      this.recordChange('stop_timer', args, {
+        summary: data.outcome === 'logged'
+          ? `Logged ${data.hours}h on #${story_id}`
+          : `Stopped the timer on #${story_id} after less than a minute, nothing logged`,
+        story_ids: [story_id],
+        before: null,
+        after: data,
+      });
+    }
+    return { data, markdown: formatTimerStopped(data) };
+  }
+
+  private async logTime(args: any): Promise<ToolOutput<TimeLogged>> {
+    const { story_id, hours, description, date } = LogTimeSchema.parse(args);
+
+    const workDate = date ? new Date(date) : new Date();
+    if (Number.isNaN(workDate.getTime())) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid date: ${date}. Use YYYY-MM-DD.`);
+    }
+
+    try {
+      const story = await this.softYPMClient.getStory(story_id);
+      await this.softYPMClient.logTime(story_id, {
+        hours,
+        description,
+        started_at: workDate.toISOString(),
+      });
+
+      const data: TimeLogged = { story, hours, description, started_at: workDate.toISOString() };
+      this.recordChange('log_time', args, {
+        summary: `Logged ${hours}h on #${story.id} ${story.name}`,
+        story_ids: [story.id],
+        before: null,
+        after: { hours, description, started_at: data.started_at },
+      });
+      return { data, markdown: formatTimeLogged(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to log time`);
+    }
+  }
+
+  private async addStoryComment(args: any): Promise<ToolOutput<CommentAdded>> {
+    const { story_id, comment } = AddStoryCommentSchema.parse(args);
+
+    try {
+      const saved = await this.softYPMClient.addStoryComment(story_id, comment);
+
+      const data: CommentAdded = { story_id, comment: saved || null, body: comment };
+      this.recordChange('add_story_comment', args, {
+        summary: `Commented on #${story_id}`,
+        story_ids: [story_id],
+        before: null,
+        after: data.comment || { body: comment },
+      });
+      return { data, markdown: formatCommentAdded(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to add story comment`);
+    }
+  }
+
+  private async listStories(args: any): Promise<ToolOutput<StoryList>> {
+    const { status, project_id, ...query } = StoryQuerySchema.extend({
+      status: z.union([z.string().min(1), z.number().int().positive()]).optional(),
+      project_id: z.number().optional(),
+    }).parse(args || {});
+
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    try {
+      const stories = await this.softYPMClient.getProjectStories(targetProjectId);
+      const workflow = await this.getWorkflow(targetProjectId);
+
+      let statusFilter: number | null = null;
+      if (status !== undefined && status !== 'all') {
+        try {
+          statusFilter = workflow.resolveStatus(status);
+        } catch (error) {
+          throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+        }
+      }
+
+      let page;
+      try {
+        page = queryStories(stories, { ...query, status: statusFilter ?? undefined });
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+
+      const data: StoryList = {
+        project_id: targetProjectId,
+        filters: {
+          status: statusFilter !== null ? workflow.stateSummary(statusFilter) : undefined,
+          query: query.query,
+          epic_id: query.epic_id,
+        },
+        stories: page.items,
+        total: page.total,
+        offset: page.offset,
+        next_offset: page.nextOffset,
+        next_page_args: page.nextOffset !== null ? { ...(args || {}), offset: page.nextOffset } : null,
+      };
+      return { data, markdown: formatStoryList(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to list stories`);
+    }
+  }
+
+  private async listEpics(args: any): Promise<ToolOutput<EpicList>> {
+    const { project_id } = GetProjectSchema.parse(args);
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    try {
+      const epics = await this.softYPMClient.getProjectEpics(targetProjectId);
+      const workflow = await this.getWorkflow(targetProjectId);
+
+      const data: EpicList = {
+        project_id: targetProjectId,
+        epics: epics.map(epic => ({ ...epic, summary: summarizeEpic(epic.stories || [], workflow) })),
+      };
+      return { data, markdown: formatEpicList(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to list epics`);
+    }
+  }
+
+  private async createEpic(args: any): Promise<ToolOutput<EpicCreated>> {
+    const { name, description, project_id } = CreateEpicSchema.parse(args);
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    try {
+      const epic = await this.softYPMClient.createEpic({
+        name,
+        description,
+        project_id: targetProjectId,
+      });
+
+      const data: EpicCreated = { epic: { description, ...epic } };
+      this.recordChange('create_epic', args, {
+        summary: `Created epic #${epic.id} ${epic.name}`,
+        story_ids: [],
+        before: null,
+        after: data.epic,
+      });
+      return { data, markdown: formatEpicCreated(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to create epic`);
+    }
+  }
+
+  private async getEpic(args: any): Promise<ToolOutput<EpicDetails>> {
+    const { epic_id } = GetEpicSchema.parse(args);
+
+    try {
+      const epic: Epic = await this.softYPMClient.getEpic(epic_id);
+
+      // The epic endpoint may not embed stories, so fall back to the project structure
+      let stories = epic.stories;
+      if (!stories) {
+        const projectStories = await this.softYPMClient.getProjectStories(epic.project_id);
+        stories = projectStories.filter(s => s.epic_id === epic_id);
+      }
+
+      const workflow = await this.getWorkflow(epic.project_id);
+      const data: EpicDetails = { epic, stories, summary: summarizeEpic(stories, workflow) };
+      return { data, markdown: formatEpicDetails(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to get epic`);
+    }
+  }
+
+  private async planSprint(args: any): Promise<ToolOutput<SprintPlanned>> {
+    const { capacity_hours, epic_id, commit, sprint_id, sprint_name, starts_on, ends_on, goal, project_id } = PlanSprintSchema.parse(args);
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    // Dates for a new sprint, checked before anything is planned; without starts_on the sprint starts next Monday
+    const dates = sprintDates(starts_on, ends_on);
+    if (!sprint_id && dates.ends_on < dates.starts_on) {
+      throw new McpError(ErrorCode.InvalidParams, `ends_on (${dates.ends_on}) is before the sprint starts on ${dates.starts_on}.`);
+    }
+
+    try {
+      const stories = await this.softYPMClient.getProjectStories(targetProjectId);
+      const epics = await this.softYPMClient.getProjectEpics(targetProjectId);
+      const workflow = await this.getWorkflow(targetProjectId);
+
+      // Only unscheduled backlog stories that already exist in SoftyPM can be planned
+      const backlog = stories.filter(story =>
+        workflow.isCategory(story.status, 'backlog') && !story.archived_at && !story.sprint_id && story.id > 0
+      );
+      const plan = planSprint(backlog, epics, { capacityHours: capacity_hours, epicId: epic_id });
+      const data: SprintPlanned = { project_id: targetProjectId, plan, sprint: null };
+
+      if (commit && plan.stories.length > 0) {
+        let sprint: Sprint;
+        if (sprint_id) {
+          sprint = await this.softYPMClient.getSprint(sprint_id);
+          if (sprint.project_id && sprint.project_id !== targetProjectId) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Sprint #${sprint_id} belongs to project #${sprint.project_id}, not project #${targetProjectId}.`
+            );
+          }
+        } else {
+          sprint = await this.softYPMClient.createSprint({
+            name: sprint_name || `Sprint ${dates.starts_on}`,
+            project_id: targetProjectId,
+            goal,
+            capacity_hours,
+            ...dates,
+          });
+        }
+
+        await this.softYPMClient.assignStoriesToSprint(sprint.id, plan.stories.map(story => story.id));
+        data.sprint = sprint;
+        this.recordChange('plan_sprint', args, {
+          summary: `Added ${plan.stories.length} stories to sprint #${sprint.id} ${sprint.name}`,
+          story_ids: plan.stories.map(story => story.id),
+          before: plan.stories.map(story => ({ id: story.id, sprint_id: story.sprint_id ?? null })),
+          after: { sprint, story_ids: plan.stories.map(story => story.id) },
+        });
+      }
+
+      return { data, markdown: formatSprintPlanned(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to plan sprint`);
+    }
+  }
+
+  private async listSprints(args: any): Promise<ToolOutput<SprintList>> {
+    const { project_id } = GetProjectSchema.parse(args);
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    try {
+      const sprints = await this.softYPMClient.getProjectSprints(targetProjectId);
+      const stories = await this.softYPMClient.getProjectStories(targetProjectId);
+      const workflow = await this.getWorkflow(targetProjectId);
+
+      const data: SprintList = {
+        project_id: targetProjectId,
+        sprints: sprints.map(sprint => ({ ...sprint, summary: summarizeSprint(sprint, sprintStories(sprint, stories), workflow) })),
+      };
+      return { data, markdown: formatSprintList(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to list sprints`);
+    }
+  }
+
+  private async getSprint(args: any): Promise<ToolOutput<SprintDetails>> {
+    const { sprint_id } = GetSprintSchema.parse(args);
+
+    try {
+      const sprint = await this.softYPMClient.getSprint(sprint_id);
+      const stories = sprintStories(sprint, sprint.stories ? [] : await this.softYPMClient.getProjectStories(sprint.project_id));
+      const workflow = await this.getWorkflow(sprint.project_id);
+
+      const data: SprintDetails = { sprint, stories, summary: summarizeSprint(sprint, stories, workflow) };
+      return { data, markdown: formatSprintDetails(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to get sprint`);
+    }
+  }
+
+  // Status history for stories that may have started or finished within the range; backlog stories haven't
+  private async loadStatusHistory(stories: Story[], since: string, workflow: Workflow) {
+    const history = new Map<number, StoryActivity[]>();
+    const queue = stories.filter(story =>
+      !workflow.isCategory(story.status, 'backlog') && (!story.updated_at || story.updated_at.slice(0, 10) >= since)
+    );
+    let unavailable = 0;
+
+    const worker = async () => {
+      for (let story = queue.shift(); story; story = queue.shift()) {
+        try {
+          history.set(story.id, await this.softYPMClient.getStoryActivity(story.id));
+        } catch {
+          unavailable++;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: HISTORY_CONCURRENCY }, worker));
+
+    return { history, unavailable };
+  }
+
+  private async projectReport(args: any): Promise<ToolOutput<ProjectReport>> {
+    const { report, output, from, to, sprint_id, project_id } = ProjectReportSchema.parse(args);
+
+    try {
+      const sprint = sprint_id ? await this.softYPMClient.getSprint(sprint_id) : null;
+      const targetProjectId = project_id || sprint?.project_id || this.currentProjectId;
+
+      if (!targetProjectId) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'No project context set. Use set_project_context first or provide project_id.'
+        );
+      }
+
+      const fallback = defaultRange();
+      const range = {
+        from: from || sprint?.starts_on || fallback.from,
+        to: to || sprint?.ends_on || fallback.to,
+      };
+      if (range.from > range.to) {
+        throw new McpError(ErrorCode.InvalidParams, `The report range starts (${range.from}) after it ends (${range.to}).`);
+      }
+
+      const projectStories = await this.softYPMClient.getProjectStories(targetProjectId);
+      const stories = (sprint ? sprintStories(sprint, projectStories) : projectStories)
+        .filter(story => !story.archived_at && story.id > 0);
+      const workflow = await this.getWorkflow(targetProjectId);
+      const { history, unavailable } = await this.loadStatusHistory(stories, range.from, workflow);
+      const timelines = buildTimelines(stories, history, workflow);
+
+      const data: ProjectReport = {
+        project_id: targetProjectId,
+        sprint,
+        report,
+        output,
+        range,
+        history_unavailable: unavailable,
+      };
+      if (report === 'burndown') {
+        data.burndown = burndown(timelines, range);
+      } else if (report === 'velocity') {
+        data.velocity = velocity(timelines, range);
+      } else {
+        data.cycle_time = cycleTime(timelines, range);
+      }
+
+      return { data, markdown: formatProjectReport(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to build ${report} report`);
+    }
+  }
+
+  // Files and git live on the server's own disk, so a shared server doesn't offer them
+  private requireLocalServer(feature: string) {
+    if (this.options.userKey) {
+      throw new McpError(ErrorCode.InvalidRequest, `${feature} can only be used with a local (stdio) server.`);
+    }
+  }
+
+  // Backlog files are read and written only inside the workspace, never elsewhere on disk
+  private localPath(file: string): string {
+    this.requireLocalServer('Backlog files');
+    const path = resolve(this.workspaceRoot, file);
+    const fromRoot = relative(this.workspaceRoot, path);
+    if (fromRoot === '..' || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+      throw new McpError(ErrorCode.InvalidParams, `${file} is outside the workspace root ${this.workspaceRoot}.`);
+    }
+    return path;
+  }
+
+  private async exportBacklog(args: any): Promise<ToolOutput<BacklogExported>> {
+    const { file, file_format, include_done, overwrite, project_id } = ExportBacklogSchema.parse(args);
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    const fileFormat = file_format || (file ? detectBacklogFormat(file) : 'markdown');
+    const path = this.localPath(file || `softypm-backlog-${targetProjectId}.${BACKLOG_FILE_EXTENSIONS[fileFormat]}`);
+    if (existsSync(path) && !overwrite) {
+      throw new McpError(ErrorCode.InvalidParams, `${path} already exists. Pass overwrite: true to replace it.`);
+    }
+
+    try {
+      const [project, epics, projectStories, workflow] = await Promise.all([
+        this.softYPMClient.getProject(targetProjectId),
+        this.softYPMClient.getProjectEpics(targetProjectId),
+        this.softYPMClient.getProjectStories(targetProjectId),
+        this.getWorkflow(targetProjectId),
+      ]);
+
+      const stories = projectStories
+        .filter(story => !story.archived_at)
+        .filter(story => include_done || !workflow.isCategory(story.status, 'done'));
+      const exportStory = (story: Story): ExportedStory => ({
+        id: story.id,
+        name: story.name,
+        description: story.description || undefined,
+        estimate: story.estimate || undefined,
+        status: workflow.stateName(story.status),
+        done: workflow.isCategory(story.status, 'done'),
+      });
+
+      const epicIds = new Set(epics.map(epic => epic.id));
+      const doc: BacklogExport = {
+        project: { id: project.id, name: project.name },
+        exported_at: new Date().toISOString(),
+        epics: epics.map(epic => ({
+          id: epic.id,
+          name: epic.name,
+          description: epic.description || undefined,
+          stories: stories.filter(story => story.epic_id === epic.id).map(exportStory),
+        })),
+        stories: stories.filter(story => !story.epic_id || !epicIds.has(story.epic_id)).map(exportStory),
+      };
+      writeFileSync(path, serializeBacklog(doc, fileFormat));
+
+      const data: BacklogExported = {
+        project_id: project.id,
+        project_name: project.name,
+        path,
+        file_format: fileFormat,
+        epics: epics.length,
+        stories: stories.length,
+        hours: stories.reduce((sum, story) => sum + (story.estimate || 0), 0),
+      };
+      return { data, markdown: formatBacklogExported(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to export backlog`);
+    }
+  }
+
+  private async importBacklog(args: any): Promise<ToolOutput<BacklogImported>> {
+    const { file, file_format, dry_run, project_id } = ImportBacklogSchema.parse(args);
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    const path = file
+      ? this.localPath(file)
+      : PLANNING_FILES.map(name => this.localPath(name)).find(candidate => existsSync(candidate));
+    if (!path) {
+      throw new McpError(ErrorCode.InvalidParams, `No file given and no ${PLANNING_FILES.join(' or ')} in ${this.workspaceRoot}.`);
+    }
+    if (!existsSync(path)) {
+      throw new McpError(ErrorCode.InvalidParams, `${path} does not exist.`);
+    }
+
+    const fileFormat = file_format || detectBacklogFormat(path);
+    const parsed = parseBacklog(readFileSync(path, 'utf8'), fileFormat);
+
+    try {
+      const [workflow, existingStories, existingEpics] = await Promise.all([
+        this.requireWorkflow(targetProjectId),
+        this.softYPMClient.getProjectStories(targetProjectId),
+        this.softYPMClient.getProjectEpics(targetProjectId),
+      ]);
+      const storiesByName = new Map<string, Story>();
+      existingStories
+        .filter(story => !story.archived_at)
+        .forEach(story => storiesByName.set(normalizeStoryName(story.name), story));
+      const epicsByName = new Map<string, Epic>();
+      existingEpics.forEach(epic => epicsByName.set(normalizeStoryName(epic.name), epic));
+      const doneState = workflow.statesIn('done')[0];
+
+      // Check every row before creating anything, so the preview reports what a real import would do
+      const rows: BacklogImportRow[] = [];
+      const toCreate: { row: BacklogRow; result: BacklogImportRow; status: number }[] = [];
+      const seen = new Set<string>();
+      for (const row of parsed.rows) {
+        const result: BacklogImportRow = { line: row.line, name: row.name, epic: row.epic, estimate: row.estimate, outcome: 'would_create' };
+        rows.push(result);
+
+        const key = normalizeStoryName(row.name);
+        const existing = storiesByName.get(key);
+        if (existing) {
+          Object.assign(result, { outcome: 'existing', story_id: existing.id });
+          continue;
+        }
+        if (seen.has(key)) {
+          result.outcome = 'duplicate';
+          continue;
+        }
+        seen.add(key);
+
+        if (row.estimate && row.estimate > MAX_STORY_ESTIMATE) {
+          Object.assign(result, { outcome: 'invalid', error: `estimated at ${row.estimate}h, stories must be ${MAX_STORY_ESTIMATE}h or less (split it first)` });
+          continue;
+        }
+
+        let status = workflow.initialState.id;
+        try {
+          if (row.status) {
+            status = workflow.resolveStatus(row.status);
+          } else if (row.done && doneState) {
+            status = doneState.id;
+          }
+        } catch (error) {
+          Object.assign(result, { outcome: 'invalid', error: error instanceof Error ? error.message : String(error) });
+          continue;
+        }
+
+        result.status = workflow.stateSummary(status);
+        toCreate.push({ row, result, status });
+      }
+
+      // Epics are matched by name too, and only created when a new story needs them
+      const epics = new Map<string, BacklogImportEpic>();
+      for (const { row } of toCreate) {
+        const key = row.epic ? normalizeStoryName(row.epic) : '';
+        if (!row.epic || epics.has(key)) {
+          continue;
+        }
+        const existing = epicsByName.get(key);
+        epics.set(key, existing
+          ? { name: existing.name, outcome: 'existing', epic_id: existing.id }
+          : { name: row.epic, outcome: 'would_create' });
+      }
+
+      if (!dry_run) {
+        for (const epic of epics.values()) {
+          if (epic.outcome !== 'would_create') {
+            continue;
+          }
+          try {
+            const created = await this.softYPMClient.createEpic({ name: epic.name, project_id: targetProjectId });
+            Object.assign(epic, { outcome: 'created', epic_id: created.id });
+          } catch (error) {
+            Object.assign(epic, { outcome: 'failed', error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+
+        for (const { row, result, status } of toCreate) {
+          const epic = row.epic ? epics.get(normalizeStoryName(row.epic)) : undefined;
+          if (epic?.outcome === 'failed') {
+            Object.assign(result, { outcome: 'failed', error: `epic "${epic.name}" could not be created` });
+            continue;
+          }
+
+          try {
+            const story = await this.softYPMClient.createStory({
+              name: row.name,
+              description: row.description,
+              estimate: row.estimate,
+              epic_id: epic?.epic_id,
+              project_id: targetProjectId,
+              status,
+            });
+            Object.assign(result, { outcome: story.pending_sync ? 'queued' : 'created', story_id: story.id });
+          } catch (error) {
+            Object.assign(result, { outcome: 'failed', error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+      }
+
+      const data: BacklogImported = {
+        project_id: targetProjectId,
+        path,
+        file_format: fileFormat,
+        dry_run,
+        epics: Array.from(epics.values()),
+        rows,
+        parse_errors: parsed.errors,
+      };
+
+      const created = rows
+        .filter(row => row.outcome === 'created' || row.outcome === 'queued')
+        .map(row => ({ id: row.story_id!, status: row.status!.id }));
+      const createdEpics = data.epics.filter(epic => epic.outcome === 'created');
+      if (created.length > 0 || createdEpics.length > 0) {
+        this.recordChange('import_backlog', args, {
+          summary: `Imported ${created.length} stories${createdEpics.length > 0 ? ` and ${createdEpics.length} epic(s)` : ''} from ${path}`,
+          story_ids: created.map(story => story.id),
+          before: null,
+          after: { stories: created, epics: createdEpics },
+          // Epics can't be archived, so undoing an import leaves any new epics behind
+          undo: created.length > 0 ? { kind: 'archive', stories: created } : undefined,
+        });
+      }
+      return { data, markdown: formatBacklogImported(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to import backlog`);
+    }
+  }
+
+  private localRepo(): GitRepo {
+    this.requireLocalServer('Git integration');
+    return new GitRepo(this.workspaceRoot);
+  }
+
+  // The story's commits on the current branch; none outside a git repository
+  private async storyCommits(storyId: number): Promise<GitCommit[]> {
+    const state = await this.localRepo().branchState();
+    return state ? commitsForStory(state, storyId) : [];
+  }
+
+  private async getGitContext(args: any): Promise<ToolOutput<GitContext>> {
+    const { start } = GitContextSchema.parse(args || {});
+    const state = await this.localRepo().branchState();
+
+    if (!state) {
+      const data: GitContext = { outcome: 'no_repository', workspace_root: this.workspaceRoot };
+      return { data, markdown: formatGitContext(data) };
+    }
+
+    const detected = branchStory(state);
+    const data: GitContext = {
+      outcome: 'found',
+      workspace_root: this.workspaceRoot,
+      branch: state.branch,
+      base: state.base,
+      on_base: state.on_base,
+      story_id: detected?.story_id || null,
+      story_source: detected?.source || null,
+      commits: state.commits,
+    };
+    if (!detected) {
+      return { data, markdown: formatGitContext(data) };
+    }
+
+    // A branch can name a story that doesn't exist, so report it rather than failing the whole call
+    let story: Story;
+    try {
+      story = await this.softYPMClient.getStory(detected.story_id);
+    } catch (error) {
+      data.story_error = error instanceof Error ? error.message : String(error);
+      return { data, markdown: formatGitContext(data) };
+    }
+
+    try {
+      const workflow = await this.getWorkflow(story.project_id);
+      data.story = story;
+      data.status = workflow.stateSummary(story.status);
+
+      const startState = workflow.nextStates(story.status).find(next => next.category === 'active');
+      if (start && data.status.category === 'backlog' && startState) {
+        // Starting is an update_story_status call, so it's held to that tool's policy too
+        const startArgs = { story_id: story.id, status: startState.id };
+        this.checkPolicy('update_story_status', startArgs);
+        this.requireAllowedProject(story.project_id, `Story ${story.id}`);
+        const { data: transition } = await this.updateStoryStatus(startArgs);
+        data.transition = transition;
+      }
+
+      return { data, markdown: formatGitContext(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to read git context`);
+    }
+  }
+
+  private async linkCommits(args: any): Promise<ToolOutput<CommitsLinked>> {
+    const { story_id, shas } = LinkCommitsSchema.parse(args || {});
+    const repo = this.localRepo();
+    const state = await repo.branchState();
+    if (!state) {
+      throw new McpError(ErrorCode.InvalidRequest, `${this.workspaceRoot} is not a git repository.`);
+    }
+
+    const storyId = story_id || branchStory(state)?.story_id;
+    if (!storyId) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No story_id given and the branch ${state.branch || '(detached HEAD)'} doesn't name a story. Use a branch like story-123-card-form, or pass story_id.`
+      );
+    }
+
+    let commits: GitCommit[];
+    if (shas) {
+      const resolved = await Promise.all(shas.map(sha => repo.commit(sha)));
+      const unknown = shas.filter((_, index) => !resolved[index]);
+      if (unknown.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown commit(s) in ${this.workspaceRoot}: ${unknown.join(', ')}`);
+      }
+      commits = resolved as GitCommit[];
+    } else {
+      commits = commitsForStory(state, storyId);
+    }
+
+    try {
+      const story = await this.softYPMClient.getStory(storyId);
+      // A story named by the branch rather than story_id hasn't been through checkProjectAccess
+      this.requireAllowedProject(story.project_id, `Story ${storyId}`);
+      if (commits.length === 0) {
+        const data: CommitsLinked = { outcome: 'none_found', story, commits, already_linked: 0 };
+        return { data, markdown: formatCommitsLinked(data) };
+      }
+
+      // Earlier link comments list each commit's short SHA, so those are skipped
+      const comments = await this.softYPMClient.getStoryComments(storyId);
+      const isLinked = (commit: GitCommit) => comments.some(comment => comment.body.includes(`\`${commit.short_sha}\``));
+      const newCommits = commits.filter(commit => !isLinked(commit));
+      const alreadyLinked = commits.length - newCommits.length;
+
+      if (newCommits.length > 0) {
+        await this.softYPMClient.addStoryComment(storyId, formatCommitComment(newCommits));
+        this.recordChange('link_commits', args, {
+          summary: `Linked ${newCommits.length} commit(s) to #${storyId}`,
+          story_ids: [storyId],
+          before: null,
+          after: newCommits,
+        });
+      }
+
+      const data: CommitsLinked = {
+        outcome: newCommits.length > 0 ? 'linked' : 'already_linked',
+        story,
+        commits: newCommits,
+        already_linked: alreadyLinked,
+      };
+      return { data, markdown: formatCommitsLinked(data) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to link commits`);
+    }
+  }
+
+  // Blockers come from the project's stories, falling back to a lookup for any in other projects
+  private async openBlockersOf(story: Story, workflow: Workflow): Promise<BlockerState> {
+    if (!story.blocked_by || story.blocked_by.length === 0) {
+      return { blockers: [], unknown_blockers: [] };
+    }
+
+    const stories = await this.softYPMClient.getProjectStories(story.project_id);
+    const outside = await this.loadOutsideBlockers(stories, [story]);
+    const byId = new Map([...stories, ...outside.blockers].map(candidate => [candidate.id, candidate]));
+    return blockerState(story, byId, workflow, new Set(outside.deleted));
+  }
+
+  /**
+   * Fetch the blockers of `blocked` that aren't among `stories`, e.g. ones in other projects. Only a 404 marks
+   * a blocker as deleted; one that fails to load for any other reason is left out, so it still counts as blocking.
+   */
+  private async loadOutsideBlockers(stories: Story[], blocked: Story[]): Promise<{ blockers: Story[]; deleted: number[] }> {
+    const known = new Set(stories.map(story => story.id));
+    const ids = new Set(blocked.flatMap(story => story.blocked_by || []).filter(id => !known.has(id)));
+    const result: { blockers: Story[]; deleted: number[] } = { blockers: [], deleted: [] };
+    for (const id of ids) {
+      try {
+        result.blockers.push(await this.softYPMClient.getStory(id));
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          result.deleted.push(id);
+        }
+      }
+    }
+    return result;
+  }
+
+  private async addDependency(args: any): Promise<ToolOutput<DependencyChanged>> {
+    const { story_id, blocked_by_story_id } = DependencySchema.parse(args);
+    if (story_id === blocked_by_story_id) {
+      throw new McpError(ErrorCode.InvalidParams, 'A story cannot be blocked by itself.');
+    }
+
+    try {
+      const [story, blocker] = await Promise.all([
+        this.softYPMClient.getStory(story_id),
+        this.softYPMClient.getStory(blocked_by_story_id),
+      ]);
+      const workflow = await this.getWorkflow(story.project_id);
+      const blockerOpen = isOpenBlocker(blocker, workflow);
+
+      if (story.blocked_by?.includes(blocker.id)) {
+        const data: DependencyChanged = { outcome: 'already_set', story, blocker, blocker_open: blockerOpen };
+        return { data, markdown: formatDependencyChanged(data, workflow) };
+      }
+
+      // Cycles are checked within the project; the blocker is included in case it lives elsewhere
+      const stories = await this.softYPMClient.getProjectStories(story.project_id);
+      if (createsCycle(story.id, blocker.id, [...stories.filter(s => s.id !== blocker.id), blocker])) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `#${blocker.id} already depends on #${story.id}, so blocking #${story.id} on it would create a cycle.`
+        );
+      }
+
+      await this.softYPMClient.addDependency(story.id, blocker.id);
+      this.recordChange('add_dependency', args, {
+        summary: `#${story.id} ${story.name} blocked by #${blocker.id}`,
+        story_ids: [story.id, blocker.id],
+        before: { story_id: story.id, blocked_by: story.blocked_by || [] },
+        after: { story_id: story.id, blocked_by: [...(story.blocked_by || []), blocker.id] },
+        undo: { kind: 'dependency', action: 'remove', story_id: story.id, blocked_by_id: blocker.id },
+      });
+      const data: DependencyChanged = {
+        outcome: 'added',
+        story: { ...story, blocked_by: [...(story.blocked_by || []), blocker.id] },
+        blocker,
+        blocker_open: blockerOpen,
+      };
+      return { data, markdown: formatDependencyChanged(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to add dependency`);
+    }
+  }
+
+  private async removeDependency(args: any): Promise<ToolOutput<DependencyChanged>> {
+    const { story_id, blocked_by_story_id } = DependencySchema.parse(args);
+
+    try {
+      const [story, blocker] = await Promise.all([
+        this.softYPMClient.getStory(story_id),
+        this.softYPMClient.getStory(blocked_by_story_id),
+      ]);
+      const workflow = await this.getWorkflow(story.project_id);
+      const blockerOpen = isOpenBlocker(blocker, workflow);
+
+      if (!story.blocked_by?.includes(blocker.id)) {
+        const data: DependencyChanged = { outcome: 'already_set', story, blocker, blocker_open: blockerOpen };
+        return { data, markdown: formatDependencyChanged(data, workflow) };
+      }
+
+      await this.softYPMClient.removeDependency(story.id, blocker.id);
+      this.recordChange('remove_dependency', args, {
+        summary: `#${story.id} ${story.name} no longer blocked by #${blocker.id}`,
+        story_ids: [story.id, blocker.id],
+        before: { story_id: story.id, blocked_by: story.blocked_by },
+        after: { story_id: story.id, blocked_by: story.blocked_by.filter(id => id !== blocker.id) },
+        undo: { kind: 'dependency', action: 'add', story_id: story.id, blocked_by_id: blocker.id },
+      });
+      const data: DependencyChanged = {
+        outcome: 'removed',
+        story: { ...story, blocked_by: story.blocked_by.filter(id => id !== blocker.id) },
+        blocker,
+        blocker_open: blockerOpen,
+      };
+      return { data, markdown: formatDependencyChanged(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to remove dependency`);
+    }
+  }
+
+  private async nextStory(args: any): Promise<ToolOutput<NextStory>> {
+    const { project_id, epic_id, max_estimate, limit } = NextStorySchema.parse(args || {});
+    const targetProjectId = project_id || this.currentProjectId;
+
+    if (!targetProjectId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No project context set. Use set_project_context first or provide project_id.'
+      );
+    }
+
+    try {
+      const stories = await this.softYPMClient.getProjectStories(targetProjectId);
+      const epics = await this.softYPMClient.getProjectEpics(targetProjectId);
+      const workflow = await this.getWorkflow(targetProjectId);
+
+      // Blockers in other projects are looked up so their status counts
+      const outside = await this.loadOutsideBlockers(stories, stories.filter(story => workflow.isCategory(story.status, 'backlog')));
+      const plan = recommendNext(stories, epics, workflow, {
+        epicId: epic_id,
+        maxEstimate: max_estimate,
+        limit,
+        blockers: outside.blockers,
+        deletedBlockers: outside.deleted,
+      });
+      const data: NextStory = { project_id: targetProjectId, ...plan };
+      return { data, markdown: formatNextStory(data, workflow) };
+    } catch (error) {
+      throw toMcpError(error, `Failed to recommend the next story`);
+    }
+  }
+
+  // Put edited fields back as they were; not possible for a field that had no value, since the API can't clear it
+  private restoreFieldsPlan(story: Story, patch: UpdateStoryData): UndoPlan | undefined {
+    const keys = (Object.keys(patch) as (keyof UpdateStoryData)[]).filter(key => patch[key] !== undefined);
+    if (keys.some(key => story[key] === undefined || story[key] === null)) {
+      return undefined;
+    }
+
+    return {
+      kind: 'fields',
+      story_id: story.id,
+      fields: Object.fromEntries(keys.map(key => [key, story[key]])),
+      expected: Object.fromEntries(keys.map(key => [key, patch[key]])),
+    };
+  }
+
+  private async recentChanges(args: any): Promise<ToolOutput<RecentChanges>> {
+    const { limit, story_id, tool } = RecentChangesSchema.parse(args || {});
+    const entries = this.auditLog.entries();
+    const undone = undoneChanges(entries);
+    const matching = entries
+      .filter(entry => (!story_id || entry.story_ids.includes(story_id)) && (!tool || entry.tool === tool))
+      .reverse();
+
+    const data: RecentChanges = {
+      log_path: this.auditLog.path,
+      changes: matching.slice(0, limit).map(entry => ({ ...entry, undone_by: undone.get(entry.id) ?? null })),
+      total: matching.length,
+    };
+    return { data, markdown: formatRecentChanges(data) };
+  }
+
+  private async undoLastChange(args: any): Promise<ToolOutput<ChangeUndone>> {
+    const { change_id } = UndoLastChangeSchema.parse(args || {});
+    const entries = this.auditLog.entries();
+    const undone = undoneChanges(entries);
+    const change = change_id ? entries.find(entry => entry.id === change_id) : lastOpenChange(entries);
+
+    let data: ChangeUndone;
+    if (!change) {
+      data = change_id ? { outcome: 'not_found', change_id } : { outcome: 'nothing_to_undo' };
+    } else if (undone.has(change.id)) {
+      data = { outcome: 'already_undone', change, undone_by: undone.get(change.id)! };
+    } else if (!change.undo) {
+      const reason = change.undoes
+        ? 'It is itself an undo. Make the change again with the original tool instead.'
+        : 'Comments, time entries, epics, sprints and archived or deleted stories can\'t be restored through the API. Fix it in SoftyPM if needed; earlier changes can still be undone by passing change_id.';
+      data = { outcome: 'not_undoable', change, reason };
+    } else {
+      try {
+        const result = await this.applyUndo(change.undo);
+        if ('conflict' in result) {
+          data = { outcome: 'conflict', change, reason: result.conflict };
+        } else {
+          const undo = this.recordChange('undo_last_change', args, result.change, change.id);
+          data = { outcome: 'undone', change, summary: result.change.summary, undo_id: undo?.id ?? null, notes: result.notes };
+        }
+      } catch (error) {
+        throw toMcpError(error, `Failed to undo change #${change.id}`);
+      }
+    }
+
+    return { data, markdown: formatChangeUndone(data) };
+  }
+
+  // Revert a recorded change, refusing when the stories have moved on since so later work isn't overwritten
+  private async applyUndo(plan: UndoPlan): Promise<{ conflict: string } | { change: AuditChange; notes: string[] }> {
+    switch (plan.kind) {
+      case 'status': {
+        const story = await this.softYPMClient.getStory(plan.story_id);
+        const workflow = await this.getWorkflow(story.project_id);
+        if (story.status !== plan.expected_status) {
+          return { conflict: `#${story.id} is now ${workflow.stateName(story.status)}, not ${workflow.stateName(plan.expected_status)}, so it has changed since. Use update_story_status instead.` };
+        }
+
+        await this.softYPMClient.updateStoryStatus(story.id, plan.status, story.status);
+        const notes: string[] = [];
+        // Time spent in a state the story shouldn't have been in isn't logged
+        if (!workflow.isCategory(plan.status, 'active') && this.timeTracker.get(story.id)) {
+          this.timeTracker.discard(story.id);
+          notes.push(`Discarded the running timer for #${story.id} without logging time.`);
+        }
+
+        return {
+          change: {
+            summary: `#${story.id} ${story.name}: ${workflow.stateName(story.status)} → ${workflow.stateName(plan.status)}`,
+            story_ids: [story.id],
+            before: story,
+            after: { ...story, status: plan.status },
+          },
+          notes,
+        };
+      }
+
+      case 'archive': {
+        const stories = await Promise.all(plan.stories.map(({ id }) => this.softYPMClient.getStory(id)));
+        const moved = stories.filter((story, index) => !story.archived_at && story.status !== plan.stories[index].status);
+        if (moved.length > 0) {
+          return { conflict: `${moved.map(story => `#${story.id}`).join(', ')} changed status since, so archiving could lose real work. Use archive_story for any that are still unwanted.` };
+        }
+
+        const notes: string[] = [];
+        const archived: Story[] = [];
+        for (const story of stories) {
+          if (story.archived_at) {
+            notes.push(`#${story.id} was already archived.`);
+          } else {
+            await this.softYPMClient.archiveStory(story.id);
+            archived.push(story);
+          }
+        }
+
+        return {
+          change: {
+            summary: `Archived ${archived.map(story => `#${story.id} ${story.name}`).join(', ') || 'nothing'}`,
+            story_ids: archived.map(story => story.id),
+            before: archived,
+            after: null,
+          },
+          notes,
+        };
+      }
+
+      case 'fields': {
+        const story = await this.softYPMClient.getStory(plan.story_id);
+        const keys = Object.keys(plan.expected) as (keyof UpdateStoryData)[];
+        const changed = keys.filter(key => story[key] !== plan.expected[key]);
+        if (changed.length > 0) {
+          return { conflict: `#${story.id}'s ${changed.join(', ')} changed since. Use update_story instead.` };
+        }
+
+        await this.softYPMClient.updateStory(story.id, plan.fields);
+        return {
+          change: {
+            summary: `#${story.id} ${story.name}: restored ${keys.join(', ')}`,
+            story_ids: [story.id],
+            before: story,
+            after: { ...story, ...plan.fields },
+          },
+          notes: [],
+        };
+      }
+
+      case 'timer': {
+        const timer = this.timeTracker.get(plan.story_id);
+        if (timer?.started_at !== plan.started_at) {
+          return { conflict: `The timer started on #${plan.story_id} at ${plan.started_at} is no longer running, so there is nothing to discard.` };
+        }
+
+        this.timeTracker.discard(plan.story_id);
+        return {
+          change: {
+            summary: `Discarded the timer on #${plan.story_id} without logging time`,
+            story_ids: [plan.story_id],
+            before: timer,
+            after: null,
+          },
+          notes: [],
+        };
+      }
+
+      case 'dependency': {
+        const story = await this.softYPMClient.getStory(plan.story_id);
+        const blockedBy = story.blocked_by || [];
+        if (plan.action === 'remove') {
+          if (!blockedBy.includes(plan.blocked_by_id)) {
+            return { conflict: `#${story.id} is no longer blocked by #${plan.blocked_by_id}.` };
+          }
+          await this.softYPMClient.removeDependency(story.id, plan.blocked_by_id);
+        } else {
+          if (blockedBy.includes(plan.blocked_by_id)) {
+            return { conflict: `#${story.id} is already blocked by #${plan.blocked_by_id} again.` };
+          }
+          const stories = await this.softYPMClient.getProjectStories(story.project_id);
+          if (createsCycle(story.id, plan.blocked_by_id, stories)) {
+            return { conflict: `#${plan.blocked_by_id} now depends on #${story.id}, so restoring the dependency would create a cycle.` };
+          }
+          await this.softYPMClient.addDependency(story.id, plan.blocked_by_id);
+        }
+
+        const after = plan.action === 'remove' ? blockedBy.filter(id => id !== plan.blocked_by_id) : [...blockedBy, plan.blocked_by_id];
+        return {
+          change: {
+            summary: `#${story.id} ${story.name} ${plan.action === 'remove' ? 'no longer' : 'again'} blocked by #${plan.blocked_by_id}`,
+            story_ids: [story.id, plan.blocked_by_id],
+            before: { story_id: story.id, blocked_by: blockedBy },
+            after: { story_id: story.id, blocked_by: after },
+          },
+          notes: [],
+        };
+      }
+    }
+  }
+
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  async close() {
+    await this.server.close();
+  }
+
+  async run() {
+    await this.connect(new StdioServerTransport());
+    console.error('SoftYPM MCP server running on stdio');
+  }
+}
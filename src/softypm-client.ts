@@ -1,8 +1,53 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { fromAxiosError, isConnectivityError, RateLimitError, SoftYPMError, withContext } from './errors.js';
+import { OfflineStore, PendingWrite } from './offline-store.js';
+
+export interface RetryOptions {
+  // Retries after the first attempt; 0 disables retrying
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Longest Retry-After we are willing to wait for before giving up on a 429
+  maxRetryAfterMs: number;
+}
 
 export interface SoftYPMConfig {
   baseURL: string;
   apiToken: string;
+  timeoutMs?: number;
+  retry?: Partial<RetryOptions>;
+  // When set, reads fall back to the local cache and writes are queued while SoftyPM is unreachable
+  offlineStore?: OfflineStore;
+}
+
+export interface WriteResult {
+  // True when SoftyPM was unreachable and the write was queued for replay
+  queued: boolean;
+}
+
+export interface SyncReport {
+  applied: string[];
+  conflicts: string[];
+  // Stories created offline: the temporary ID they had and the one SoftyPM gave them
+  resolved_ids: { temp_id: number; id: number }[];
+  remaining: number;
+  offline: boolean;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 60000,
+};
+
+// Methods that are safe to repeat after a 5xx, timeout or dropped connection
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
 }
 
 export interface Project {
@@ -20,26 +65,125 @@ export interface Story {
   status: number;
   estimate?: number;
   epic_id?: number;
+  parent_story_id?: number | null;
+  project_id: number;
+  sprint_id?: number | null;
+  // Rank within the epic (or the project, for stories without one); lower comes first
+  position?: number;
+  // Stories that must be finished before this one can start, and the stories waiting on this one
+  blocked_by?: number[];
+  blocks?: number[];
+  archived_at?: string | null;
+  // Set on cached copies that include changes not yet synced to SoftyPM
+  pending_sync?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Epic {
+  id: number;
+  name: string;
+  description?: string;
   project_id: number;
+  // Lower is more important; epics without one follow, in project order
+  priority?: number | null;
+  stories?: Story[];
   created_at?: string;
   updated_at?: string;
 }
 
+export interface CreateEpicData {
+  name: string;
+  description?: string;
+  project_id: number;
+}
+
+export type SprintState = 'planned' | 'active' | 'closed';
+
+export interface Sprint {
+  id: number;
+  name: string;
+  project_id: number;
+  goal?: string;
+  // Dates as YYYY-MM-DD
+  starts_on?: string;
+  ends_on?: string;
+  capacity_hours?: number;
+  state?: SprintState;
+  stories?: Story[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CreateSprintData {
+  name: string;
+  project_id: number;
+  goal?: string;
+  starts_on?: string;
+  ends_on?: string;
+  capacity_hours?: number;
+}
+
+export interface StoryComment {
+  id: number;
+  story_id: number;
+  body: string;
+  author?: { name: string };
+  created_at?: string;
+}
+
+export interface StoryActivity {
+  id: number;
+  story_id: number;
+  type: string;
+  description?: string;
+  from_status?: number;
+  to_status?: number;
+  user?: { name: string };
+  created_at?: string;
+}
+
+export interface TimeEntry {
+  id: number;
+  story_id: number;
+  hours: number;
+  description?: string;
+  started_at?: string;
+  ended_at?: string;
+  created_at?: string;
+}
+
+export interface CreateTimeEntryData {
+  hours: number;
+  description?: string;
+  started_at?: string;
+  ended_at?: string;
+}
+
 export interface CreateStoryData {
   name: string;
   description?: string;
   estimate?: number;
   epic_id?: number;
+  parent_story_id?: number;
   project_id: number;
   status?: number;
 }
 
+export type UpdateStoryData = Partial<Pick<CreateStoryData, 'name' | 'description' | 'estimate' | 'epic_id'>>;
+
 export class SoftYPMClient {
   private client: AxiosInstance;
+  private retry: RetryOptions;
+  private offlineStore?: OfflineStore;
+  private offlineSinceDate: Date | null = null;
 
   constructor(config: SoftYPMConfig) {
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...config.retry };
+    this.offlineStore = config.offlineStore;
     this.client = axios.create({
       baseURL: config.baseURL,
+      timeout: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
       headers: {
         'Authorization': `Bearer ${config.apiToken}`,
         'Content-Type': 'application/json',
@@ -47,78 +191,267 @@ export class SoftYPMClient {
       },
     });
 
-    // Add response interceptor for error handling
+    // Retry transient failures, then turn whatever is left into a typed SoftYPMError
     this.client.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        if (error.response) {
-          const status = error.response.status;
-          const message = error.response.data?.message || error.response.statusText;
-          
-          if (status === 401) {
-            throw new Error('Authentication failed. Please check your API token.');
-          } else if (status === 403) {
-            throw new Error('Access denied. You may not have permission to access this resource.');
-          } else if (status === 404) {
-            throw new Error('Resource not found.');
-          } else if (status >= 500) {
-            throw new Error('SoftYPM server error. Please try again later.');
-          }
-          
-          throw new Error(`API Error: ${message}`);
-        } else if (error.request) {
-          throw new Error('Unable to connect to SoftYPM. Please check your internet connection.');
-        } else {
-          throw new Error(`Request failed: ${error.message}`);
+      (response) => {
+        this.offlineSinceDate = null;
+        return response;
+      },
+      async (error: AxiosError) => {
+        const softError = fromAxiosError(error);
+        const requestConfig = error.config as RetryableRequestConfig | undefined;
+
+        if (requestConfig && this.shouldRetry(requestConfig, softError)) {
+          requestConfig.retryCount = (requestConfig.retryCount || 0) + 1;
+          await new Promise(resolve => setTimeout(resolve, this.retryDelay(requestConfig.retryCount!, softError)));
+          return this.client.request(requestConfig);
+        }
+
+        if (isConnectivityError(softError)) {
+          this.offlineSinceDate = this.offlineSinceDate || new Date();
         }
+        throw softError;
       }
     );
   }
 
+  // When the last request could not reach SoftyPM; null while online
+  get offlineSince(): Date | null {
+    return this.offlineSinceDate;
+  }
+
+  get pendingWrites(): PendingWrite[] {
+    return this.offlineStore?.pendingWrites() || [];
+  }
+
+  // Serve a read from the network, refreshing the cache, or from the cache when SoftyPM is unreachable
+  private async readThrough<T>(fetch: () => Promise<T>, cached: () => T | undefined, save: (value: T) => void): Promise<T> {
+    try {
+      const value = await fetch();
+      if (this.offlineStore) {
+        save(value);
+      }
+      return value;
+    } catch (error) {
+      const fallback = this.offlineStore && isConnectivityError(error) ? cached() : undefined;
+      if (fallback !== undefined) {
+        return fallback;
+      }
+      throw error;
+    }
+  }
+
+  private shouldRetry(config: RetryableRequestConfig, error: SoftYPMError): boolean {
+    if (!error.retryable || (config.retryCount || 0) >= this.retry.retries) {
+      return false;
+    }
+
+    // A 429 means the request was rejected before being processed, so any method may be retried
+    if (error instanceof RateLimitError) {
+      return (error.retryAfterMs ?? 0) <= this.retry.maxRetryAfterMs;
+    }
+
+    return IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase());
+  }
+
+  // Exponential backoff with full jitter, unless the server told us how long to wait
+  private retryDelay(attempt: number, error: SoftYPMError): number {
+    if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  async listProjects(): Promise<Project[]> {
+    try {
+      const response: AxiosResponse = await this.client.get('/projects');
+      
+      if (response.data.success) {
+        return response.data.projects || response.data.data || [];
+      }
+      
+      return Array.isArray(response.data) ? response.data : response.data.projects || [];
+    } catch (error) {
+      throw withContext(error, `Failed to list projects`);
+    }
+  }
+
   async getProject(projectId: number): Promise<Project> {
+    return this.readThrough(
+      () => this.fetchProject(projectId),
+      () => this.offlineStore?.getProject(projectId)?.data,
+      project => this.offlineStore!.cacheProject(project)
+    );
+  }
+
+  private async fetchProject(projectId: number): Promise<Project> {
     try {
       const response: AxiosResponse = await this.client.get(`/projects/${projectId}`);
-      return response.data.project || response.data;
+      return response.data.project || response.data.data || response.data;
     } catch (error) {
-      throw new Error(`Failed to get project ${projectId}: ${error instanceof Error ? error.message : String(error)}`);
+      throw withContext(error, `Failed to get project ${projectId}`);
     }
   }
 
   async getProjectStories(projectId: number): Promise<Story[]> {
+    return this.readThrough(
+      () => this.fetchProjectStories(projectId),
+      () => this.offlineStore?.getProjectStories(projectId)?.data,
+      stories => this.offlineStore!.cacheProjectStories(projectId, stories)
+    );
+  }
+
+  private async fetchProjectStories(projectId: number): Promise<Story[]> {
     try {
-      // Try the project structure endpoint first
-      const response: AxiosResponse = await this.client.get(`/claude-code/projects/${projectId}/structure`);
-      
-      if (response.data.success && response.data.data) {
-        // Extract stories from the project data
-        const project = response.data.data.project;
-        const stories: Story[] = [];
-        
-        // Collect stories from epics
-        if (project.epics) {
-          project.epics.forEach((epic: any) => {
-            if (epic.stories) {
-              stories.push(...epic.stories);
-            }
-          });
-        }
-        
-        // Also get any direct stories on the project
-        if (project.stories) {
-          stories.push(...project.stories);
-        }
-        
-        return stories;
+      const project = await this.getProjectStructure(projectId);
+      const stories: Story[] = [];
+      
+      // Collect stories from epics
+      if (project.epics) {
+        project.epics.forEach((epic: any) => {
+          if (epic.stories) {
+            stories.push(...epic.stories);
+          }
+        });
+      }
+      
+      // Also get any direct stories on the project
+      if (project.stories) {
+        stories.push(...project.stories);
+      }
+      
+      return stories;
+    } catch (error) {
+      throw withContext(error, `Failed to get stories for project ${projectId}`);
+    }
+  }
+
+  async getProjectEpics(projectId: number): Promise<Epic[]> {
+    try {
+      const project = await this.getProjectStructure(projectId);
+      
+      return (project.epics || []).map((epic: any) => ({
+        ...epic,
+        project_id: epic.project_id ?? projectId,
+        stories: epic.stories || [],
+      }));
+    } catch (error) {
+      throw withContext(error, `Failed to get epics for project ${projectId}`);
+    }
+  }
+
+  async getEpic(epicId: number): Promise<Epic> {
+    try {
+      const response: AxiosResponse = await this.client.get(`/epics/${epicId}`);
+      
+      if (response.data.success) {
+        return response.data.epic || response.data.data;
+      }
+      
+      return response.data;
+    } catch (error) {
+      throw withContext(error, `Failed to get epic ${epicId}`);
+    }
+  }
+
+  async createEpic(data: CreateEpicData): Promise<Epic> {
+    try {
+      const response: AxiosResponse = await this.client.post('/epics', data);
+      
+      if (response.data.success) {
+        return response.data.epic || response.data.data;
+      }
+      
+      return response.data;
+    } catch (error) {
+      throw withContext(error, `Failed to create epic`);
+    }
+  }
+
+  async getProjectSprints(projectId: number): Promise<Sprint[]> {
+    try {
+      const response: AxiosResponse = await this.client.get(`/projects/${projectId}/sprints`);
+      
+      if (response.data.success) {
+        return response.data.sprints || response.data.data || [];
+      }
+      
+      return Array.isArray(response.data) ? response.data : response.data.sprints || [];
+    } catch (error) {
+      throw withContext(error, `Failed to get sprints for project ${projectId}`);
+    }
+  }
+
+  async getSprint(sprintId: number): Promise<Sprint> {
+    try {
+      const response: AxiosResponse = await this.client.get(`/sprints/${sprintId}`);
+      
+      if (response.data.success) {
+        return response.data.sprint || response.data.data;
+      }
+      
+      return response.data;
+    } catch (error) {
+      throw withContext(error, `Failed to get sprint ${sprintId}`);
+    }
+  }
+
+  async createSprint(data: CreateSprintData): Promise<Sprint> {
+    try {
+      const response: AxiosResponse = await this.client.post('/sprints', data);
+      
+      if (response.data.success) {
+        return response.data.sprint || response.data.data;
       }
       
-      // Fallback to direct API call if needed
-      throw new Error('Unable to get project stories from structure endpoint');
+      return response.data;
+    } catch (error) {
+      throw withContext(error, `Failed to create sprint`);
+    }
+  }
+
+  // Stories already in another sprint are moved to this one
+  async assignStoriesToSprint(sprintId: number, storyIds: number[]): Promise<void> {
+    try {
+      await this.client.post(`/sprints/${sprintId}/stories`, { story_ids: storyIds });
+    } catch (error) {
+      throw withContext(error, `Failed to add stories to sprint ${sprintId}`);
+    }
+  }
+
+  // storyId can't start until blockedById is done
+  async addDependency(storyId: number, blockedById: number): Promise<void> {
+    try {
+      await this.client.post(`/stories/${storyId}/dependencies`, { blocked_by_id: blockedById });
+    } catch (error) {
+      throw withContext(error, `Failed to add dependency to story ${storyId}`);
+    }
+  }
+
+  async removeDependency(storyId: number, blockedById: number): Promise<void> {
+    try {
+      await this.client.delete(`/stories/${storyId}/dependencies/${blockedById}`);
     } catch (error) {
-      throw new Error(`Failed to get stories for project ${projectId}: ${error instanceof Error ? error.message : String(error)}`);
+      throw withContext(error, `Failed to remove dependency from story ${storyId}`);
     }
   }
 
   async createStory(data: CreateStoryData): Promise<Story> {
+    try {
+      const story = await this.postStory(data);
+      this.offlineStore?.cacheStory(story);
+      return story;
+    } catch (error) {
+      if (this.offlineStore && isConnectivityError(error)) {
+        return this.offlineStore.queueCreateStory(data);
+      }
+      throw error;
+    }
+  }
+
+  private async postStory(data: CreateStoryData): Promise<Story> {
     try {
       const response: AxiosResponse = await this.client.post('/stories', data);
       
@@ -129,11 +462,25 @@ export class SoftYPMClient {
       // Handle different response formats
       return response.data;
     } catch (error) {
-      throw new Error(`Failed to create story: ${error instanceof Error ? error.message : String(error)}`);
+      throw withContext(error, `Failed to create story`);
     }
   }
 
   async getStory(storyId: number): Promise<Story> {
+    // Stories created offline only exist in the cache until they are synced
+    const placeholder = storyId < 0 ? this.offlineStore?.getStory(storyId)?.data : undefined;
+    if (placeholder) {
+      return placeholder;
+    }
+
+    return this.readThrough(
+      () => this.fetchStory(storyId),
+      () => this.offlineStore?.getStory(storyId)?.data,
+      story => this.offlineStore!.cacheStory(story)
+    );
+  }
+
+  private async fetchStory(storyId: number): Promise<Story> {
     try {
       const response: AxiosResponse = await this.client.get(`/stories/${storyId}`);
       
@@ -143,27 +490,277 @@ export class SoftYPMClient {
       
       return response.data;
     } catch (error) {
-      throw new Error(`Failed to get story ${storyId}: ${error instanceof Error ? error.message : String(error)}`);
+      throw withContext(error, `Failed to get story ${storyId}`);
     }
   }
 
-  async updateStoryStatus(storyId: number, status: number): Promise<void> {
+  async updateStory(storyId: number, patch: UpdateStoryData): Promise<Story> {
+    try {
+      const response: AxiosResponse = await this.client.patch(`/stories/${storyId}`, patch);
+      
+      if (response.data.success) {
+        return response.data.story || response.data.data;
+      }
+      
+      return response.data;
+    } catch (error) {
+      throw withContext(error, `Failed to update story ${storyId}`);
+    }
+  }
+
+  async archiveStory(storyId: number): Promise<void> {
+    try {
+      const response: AxiosResponse = await this.client.post(`/stories/${storyId}/archive`);
+      
+      if (!response.data.success && response.status !== 200) {
+        throw new SoftYPMError(response.data.message || 'Failed to archive story');
+      }
+    } catch (error) {
+      throw withContext(error, `Failed to archive story ${storyId}`);
+    }
+  }
+
+  async deleteStory(storyId: number): Promise<void> {
+    try {
+      await this.client.delete(`/stories/${storyId}`);
+    } catch (error) {
+      throw withContext(error, `Failed to delete story ${storyId}`);
+    }
+  }
+
+  /**
+   * expectedStatus is the status the caller saw, so a queued change can detect conflicting edits on replay.
+   * queuedComment is only used when the change is queued, and is posted after it on replay; online, the caller adds its own comment.
+   */
+  async updateStoryStatus(
+    storyId: number,
+    status: number,
+    expectedStatus: number | null = null,
+    queuedComment?: string
+  ): Promise<WriteResult> {
+    const queue = () => {
+      this.offlineStore!.queueStatusUpdate(storyId, status, expectedStatus, queuedComment);
+      return { queued: true };
+    };
+
+    if (this.offlineStore && storyId < 0) {
+      return queue();
+    }
+
+    try {
+      await this.postStoryStatus(storyId, status);
+    } catch (error) {
+      if (this.offlineStore && isConnectivityError(error)) {
+        return queue();
+      }
+      throw error;
+    }
+
+    const cached = this.offlineStore?.getStory(storyId);
+    if (cached) {
+      this.offlineStore!.cacheStory({ ...cached.data, status, pending_sync: false });
+    }
+    return { queued: false };
+  }
+
+  private async postStoryStatus(storyId: number, status: number): Promise<void> {
     try {
       const response: AxiosResponse = await this.client.post(`/stories/${storyId}/status`, {
         status: status
       });
       
       if (!response.data.success && response.status !== 200) {
-        throw new Error(response.data.message || 'Failed to update story status');
+        throw new SoftYPMError(response.data.message || 'Failed to update story status');
+      }
+    } catch (error) {
+      throw withContext(error, `Failed to update story ${storyId} status`);
+    }
+  }
+
+  async getTimeEntries(storyId: number): Promise<TimeEntry[]> {
+    try {
+      const response: AxiosResponse = await this.client.get(`/stories/${storyId}/time-entries`);
+      
+      if (response.data.success) {
+        return response.data.time_entries || response.data.data || [];
+      }
+      
+      return Array.isArray(response.data) ? response.data : response.data.time_entries || [];
+    } catch (error) {
+      throw withContext(error, `Failed to get time entries for story ${storyId}`);
+    }
+  }
+
+  async logTime(storyId: number, data: CreateTimeEntryData): Promise<TimeEntry> {
+    try {
+      const response: AxiosResponse = await this.client.post(`/stories/${storyId}/time-entries`, data);
+      
+      if (response.data.success) {
+        return response.data.time_entry || response.data.data;
+      }
+      
+      return response.data;
+    } catch (error) {
+      throw withContext(error, `Failed to log time for story ${storyId}`);
+    }
+  }
+
+  // Raw workflow definition for a project; validated by the caller
+  async getProjectWorkflow(projectId: number): Promise<unknown> {
+    try {
+      const response: AxiosResponse = await this.client.get(`/claude-code/projects/${projectId}/workflow`);
+      
+      if (response.data.success) {
+        return response.data.workflow || response.data.data || null;
       }
+      
+      return response.data.workflow || null;
     } catch (error) {
-      throw new Error(`Failed to update story ${storyId} status: ${error instanceof Error ? error.message : String(error)}`);
+      throw withContext(error, `Failed to get workflow for project ${projectId}`);
     }
   }
 
+  async getStoryComments(storyId: number): Promise<StoryComment[]> {
+    try {
+      const response: AxiosResponse = await this.client.get(`/stories/${storyId}/comments`);
+      
+      if (response.data.success) {
+        return response.data.comments || response.data.data || [];
+      }
+      
+      return Array.isArray(response.data) ? response.data : response.data.comments || [];
+    } catch (error) {
+      throw withContext(error, `Failed to get comments for story ${storyId}`);
+    }
+  }
+
+  async addStoryComment(storyId: number, body: string): Promise<StoryComment> {
+    try {
+      const response: AxiosResponse = await this.client.post(`/stories/${storyId}/comments`, {
+        body: body
+      });
+      
+      if (response.data.success) {
+        return response.data.comment || response.data.data;
+      }
+      
+      return response.data;
+    } catch (error) {
+      throw withContext(error, `Failed to add comment to story ${storyId}`);
+    }
+  }
+
+  async getStoryActivity(storyId: number): Promise<StoryActivity[]> {
+    try {
+      const response: AxiosResponse = await this.client.get(`/stories/${storyId}/activity`);
+      
+      if (response.data.success) {
+        return response.data.activity || response.data.data || [];
+      }
+      
+      return Array.isArray(response.data) ? response.data : response.data.activity || [];
+    } catch (error) {
+      throw withContext(error, `Failed to get activity for story ${storyId}`);
+    }
+  }
+
+  private async getProjectStructure(projectId: number): Promise<any> {
+    const response: AxiosResponse = await this.client.get(`/claude-code/projects/${projectId}/structure`);
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.project;
+    }
+    
+    throw new SoftYPMError('Unable to get project structure from structure endpoint');
+  }
+
+  /**
+   * Replay writes queued while offline, oldest first. Writes whose target changed on the server in the
+   * meantime are marked as conflicts and held for review instead of being applied.
+   */
+  async syncPendingWrites(): Promise<SyncReport> {
+    const report: SyncReport = { applied: [], conflicts: [], resolved_ids: [], remaining: 0, offline: false };
+    const store = this.offlineStore;
+    if (!store) {
+      return report;
+    }
+
+    for (const { id } of store.pendingWrites()) {
+      // Re-read each write: replaying a create rewrites later writes that used its temporary ID
+      const write = store.pendingWrites().find(pending => pending.id === id);
+      if (!write || write.conflict) {
+        continue;
+      }
+
+      try {
+        if (write.type === 'create_story') {
+          const existing = (await this.fetchProjectStories(write.data.project_id))
+            .find(story => story.name.trim().toLowerCase() === write.data.name.trim().toLowerCase() && (story.epic_id || undefined) === write.data.epic_id);
+          if (existing) {
+            const conflict = `A story named "${write.data.name}" already exists (#${existing.id})`;
+            store.updateWrite(write.id, { conflict });
+            report.conflicts.push(conflict);
+            continue;
+          }
+
+          const story = await this.postStory(write.data);
+          store.removeWrite(write.id);
+          store.resolveTempId(write.temp_id, story.id);
+          store.forgetStory(write.temp_id, write.data.project_id);
+          store.cacheStory(story);
+          report.resolved_ids.push({ temp_id: write.temp_id, id: story.id });
+          report.applied.push(`Created story #${story.id}: ${story.name}`);
+        } else {
+          if (write.story_id < 0) {
+            // Waiting on a create that hasn't synced yet
+            continue;
+          }
+
+          const current = await this.fetchStory(write.story_id);
+          if (current.status === write.status) {
+            report.applied.push(`Story #${write.story_id} already had status ${write.status}`);
+          } else if (write.expected_status !== null && current.status !== write.expected_status) {
+            const conflict = `Story #${write.story_id} changed on the server (status ${write.expected_status} → ${current.status}) since status ${write.status} was queued`;
+            store.updateWrite(write.id, { conflict });
+            report.conflicts.push(conflict);
+            continue;
+          } else {
+            await this.postStoryStatus(write.story_id, write.status);
+            store.cacheStory({ ...current, status: write.status, pending_sync: false });
+            report.applied.push(`Story #${write.story_id} moved to status ${write.status}`);
+          }
+
+          // The write stays queued until its comment is posted too; a retry then finds the status already set
+          if (write.comment) {
+            await this.addStoryComment(write.story_id, write.comment);
+            report.applied.push(`Comment added to story #${write.story_id}`);
+          }
+          store.removeWrite(write.id);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        // Still offline: keep the rest of the queue in order for the next attempt
+        if (isConnectivityError(error)) {
+          store.updateWrite(write.id, { attempts: write.attempts + 1, last_error: message });
+          report.offline = true;
+          break;
+        }
+
+        // The API rejected the write; hold it for review rather than retrying forever
+        store.updateWrite(write.id, { attempts: write.attempts + 1, last_error: message, conflict: message });
+        report.conflicts.push(`${write.type} failed: ${message}`);
+      }
+    }
+
+    report.remaining = store.pendingWrites().length;
+    return report;
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
-      const response: AxiosResponse = await this.client.get('/claude-code/health');
+      // Keep health checks quick so startup and diagnostics don't hang on an outage
+      const response: AxiosResponse = await this.client.get('/claude-code/health', { timeout: 5000 });
       return response.data.success === true;
     } catch (error) {
       return false;
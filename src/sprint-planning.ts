@@ -0,0 +1,97 @@
+import { Epic, Story } from './softypm-client.js';
+
+export interface SprintPlanOptions {
+  capacityHours: number;
+  // Only plan stories from this epic
+  epicId?: number;
+}
+
+export interface SkippedStory {
+  story: Story;
+  reason: 'over_capacity' | 'not_estimated';
+}
+
+export interface SprintPlan {
+  capacity_hours: number;
+  // Estimated hours of the proposed stories, and what's left of the capacity
+  committed_hours: number;
+  remaining_hours: number;
+  stories: Story[];
+  // Backlog stories left out of the sprint, in backlog order
+  skipped: SkippedStory[];
+  // Estimated hours still in the backlog after this sprint
+  backlog_hours_remaining: number;
+}
+
+const byRank = (a: number, b: number) => a - b;
+
+/**
+ * Order backlog stories the way a lead would pull them: epics by priority (lower first, unprioritized
+ * epics after in project order, stories without an epic last), then stories by position within the
+ * epic, falling back to the order SoftyPM returned them in.
+ */
+export function rankBacklog(stories: Story[], epics: Epic[]): Story[] {
+  const epicOrder = epics
+    .map((epic, index) => ({ id: epic.id, priority: epic.priority ?? Infinity, index }))
+    .sort((a, b) => byRank(a.priority, b.priority) || byRank(a.index, b.index));
+  const epicRank = new Map(epicOrder.map((epic, rank) => [epic.id, rank]));
+
+  return stories
+    .map((story, index) => ({ story, index }))
+    .sort((a, b) =>
+      byRank(epicRank.get(a.story.epic_id ?? -1) ?? Infinity, epicRank.get(b.story.epic_id ?? -1) ?? Infinity) ||
+      byRank(a.story.position ?? Infinity, b.story.position ?? Infinity) ||
+      byRank(a.index, b.index)
+    )
+    .map(({ story }) => story);
+}
+
+// Fill the capacity from the top of the ranked backlog, skipping stories that don't fit or have no estimate
+export function planSprint(backlog: Story[], epics: Epic[], options: SprintPlanOptions): SprintPlan {
+  const candidates = options.epicId ? backlog.filter(story => story.epic_id === options.epicId) : backlog;
+  const plan: SprintPlan = {
+    capacity_hours: options.capacityHours,
+    committed_hours: 0,
+    remaining_hours: options.capacityHours,
+    stories: [],
+    skipped: [],
+    backlog_hours_remaining: 0,
+  };
+
+  for (const story of rankBacklog(candidates, epics)) {
+    if (!story.estimate) {
+      plan.skipped.push({ story, reason: 'not_estimated' });
+    } else if (story.estimate > plan.remaining_hours) {
+      plan.skipped.push({ story, reason: 'over_capacity' });
+      plan.backlog_hours_remaining += story.estimate;
+    } else {
+      plan.stories.push(story);
+      plan.committed_hours += story.estimate;
+      plan.remaining_hours -= story.estimate;
+    }
+  }
+
+  // Estimates can be fractional, so keep the totals free of floating point noise
+  plan.committed_hours = roundHours(plan.committed_hours);
+  plan.remaining_hours = roundHours(plan.remaining_hours);
+  plan.backlog_hours_remaining = roundHours(plan.backlog_hours_remaining);
+  return plan;
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+function localDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Dates for a new sprint: next Monday unless a start is given, ending on the first Friday on or after the start
+export function sprintDates(startsOn?: string, endsOn?: string, today: Date = new Date()): { starts_on: string; ends_on: string } {
+  const start = startsOn
+    ? new Date(`${startsOn}T00:00:00`)
+    : new Date(today.getFullYear(), today.getMonth(), today.getDate() + ((8 - today.getDay()) % 7 || 7));
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + (12 - start.getDay()) % 7);
+
+  return { starts_on: localDate(start), ends_on: endsOn || localDate(end) };
+}
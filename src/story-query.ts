@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { Story } from './softypm-client.js';
+
+export const STORY_SORT_FIELDS = ['id', 'name', 'status', 'estimate', 'created_at', 'updated_at'] as const;
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+// Filters and paging for list_my_stories. Status is resolved against the workflow by the caller.
+export const StoryQuerySchema = z.object({
+  query: z.string().optional(),
+  epic_id: z.number().positive().optional(),
+  min_estimate: z.number().nonnegative().optional(),
+  max_estimate: z.number().nonnegative().optional(),
+  created_after: z.string().optional(),
+  created_before: z.string().optional(),
+  updated_after: z.string().optional(),
+  updated_before: z.string().optional(),
+  include_archived: z.boolean().optional(),
+  sort_by: z.enum(STORY_SORT_FIELDS).default('id'),
+  sort_order: z.enum(['asc', 'desc']).default('asc'),
+  limit: z.number().int().positive().max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  offset: z.number().int().nonnegative().default(0),
+});
+
+export type StoryQuery = z.infer<typeof StoryQuerySchema> & { status?: number };
+
+export interface StoryPage {
+  items: Story[];
+  total: number;
+  offset: number;
+  limit: number;
+  nextOffset: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A bare YYYY-MM-DD upper bound covers that whole day, so "before 2026-10-10" includes stories from that afternoon
+function parseDate(value: string | undefined, field: string, endOfDay = false): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${field}: ${value}. Use YYYY-MM-DD or an ISO timestamp.`);
+  }
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? time + DAY_MS - 1 : time;
+}
+
+function withinRange(timestamp: string | undefined, after: number | null, before: number | null): boolean {
+  if (after === null && before === null) {
+    return true;
+  }
+  if (!timestamp) {
+    return false;
+  }
+
+  const time = new Date(timestamp).getTime();
+  return (after === null || time >= after) && (before === null || time <= before);
+}
+
+function compareStories(a: Story, b: Story, field: typeof STORY_SORT_FIELDS[number]): number {
+  switch (field) {
+    case 'name':
+      return a.name.localeCompare(b.name);
+    case 'created_at':
+    case 'updated_at':
+      return new Date(a[field] || 0).getTime() - new Date(b[field] || 0).getTime();
+    case 'estimate':
+      // Unestimated stories sort after estimated ones
+      return (a.estimate ?? Infinity) - (b.estimate ?? Infinity);
+    default:
+      return a[field] - b[field];
+  }
+}
+
+export function queryStories(stories: Story[], query: StoryQuery): StoryPage {
+  const createdAfter = parseDate(query.created_after, 'created_after');
+  const createdBefore = parseDate(query.created_before, 'created_before', true);
+  const updatedAfter = parseDate(query.updated_after, 'updated_after');
+  const updatedBefore = parseDate(query.updated_before, 'updated_before', true);
+  const needle = query.query?.trim().toLowerCase();
+
+  const matches = stories.filter(story => {
+    if (!query.include_archived && story.archived_at) {
+      return false;
+    }
+    if (query.status !== undefined && story.status !== query.status) {
+      return false;
+    }
+    if (query.epic_id !== undefined && story.epic_id !== query.epic_id) {
+      return false;
+    }
+    if (query.min_estimate !== undefined && (story.estimate === undefined || story.estimate < query.min_estimate)) {
+      return false;
+    }
+    if (query.max_estimate !== undefined && (story.estimate === undefined || story.estimate > query.max_estimate)) {
+      return false;
+    }
+    if (needle && !`${story.name}\n${story.description || ''}`.toLowerCase().includes(needle)) {
+      return false;
+    }
+
+    return withinRange(story.created_at, createdAfter, createdBefore)
+      && withinRange(story.updated_at, updatedAfter, updatedBefore);
+  });
+
+  const direction = query.sort_order === 'desc' ? -1 : 1;
+  matches.sort((a, b) => compareStories(a, b, query.sort_by) * direction || a.id - b.id);
+
+  const items = matches.slice(query.offset, query.offset + query.limit);
+  const nextOffset = query.offset + query.limit < matches.length ? query.offset + query.limit : null;
+
+  return {
+    items,
+    total: matches.length,
+    offset: query.offset,
+    limit: query.limit,
+    nextOffset,
+  };
+}
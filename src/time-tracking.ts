@@ -0,0 +1,91 @@
+import { readStateFile, writeStateFile } from './local-state.js';
+
+// Running timers are kept in local state so they survive a server restart
+const TIMERS_STATE_FILE = 'timers.json';
+
+export interface ActiveTimer {
+  story_id: number;
+  started_at: string;
+}
+
+export interface StoppedTimer extends ActiveTimer {
+  ended_at: string;
+  hours: number;
+}
+
+type TimerState = Record<string, ActiveTimer>;
+
+// Hours between two timestamps, rounded to the nearest minute's worth of hours
+export function elapsedHours(startedAt: string, endedAt: Date = new Date()): number {
+  const milliseconds = Math.max(0, endedAt.getTime() - new Date(startedAt).getTime());
+  const minutes = Math.round(milliseconds / 60000);
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+export function formatHours(hours: number): string {
+  if (hours < 1) {
+    return `${Math.round(hours * 60)}m`;
+  }
+  return `${Math.round(hours * 100) / 100}h`;
+}
+
+export class TimeTracker {
+  private stateFile: string;
+
+  // A namespace keeps each user's timers apart when one server is shared
+  constructor(namespace?: string) {
+    this.stateFile = namespace ? `timers/${namespace.replace(/[^a-zA-Z0-9_.-]/g, '_')}.json` : TIMERS_STATE_FILE;
+  }
+
+  private read(): TimerState {
+    return readStateFile<TimerState>(this.stateFile, {});
+  }
+
+  get(storyId: number): ActiveTimer | null {
+    return this.read()[storyId] || null;
+  }
+
+  list(): ActiveTimer[] {
+    return Object.values(this.read());
+  }
+
+  // Returns the running timer; an already-running timer is left untouched
+  start(storyId: number): { timer: ActiveTimer; alreadyRunning: boolean } {
+    const timers = this.read();
+    const existing = timers[storyId];
+    if (existing) {
+      return { timer: existing, alreadyRunning: true };
+    }
+
+    const timer: ActiveTimer = {
+      story_id: storyId,
+      started_at: new Date().toISOString(),
+    };
+    timers[storyId] = timer;
+    writeStateFile(this.stateFile, timers);
+
+    return { timer, alreadyRunning: false };
+  }
+
+  // Measure a running timer without stopping it, so it can be discarded only once the entry is saved
+  measure(storyId: number, endedAt: Date = new Date()): StoppedTimer | null {
+    const timer = this.get(storyId);
+    if (!timer) {
+      return null;
+    }
+
+    return {
+      ...timer,
+      ended_at: endedAt.toISOString(),
+      hours: elapsedHours(timer.started_at, endedAt),
+    };
+  }
+
+  discard(storyId: number): void {
+    const timers = this.read();
+    if (timers[storyId]) {
+      delete timers[storyId];
+      writeStateFile(this.stateFile, timers);
+    }
+  }
+}
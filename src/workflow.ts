@@ -0,0 +1,246 @@
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import { NotFoundError } from './errors.js';
+import { readRepoConfig } from './project-context.js';
+import { SoftYPMClient, Story } from './softypm-client.js';
+
+/**
+ * Every state belongs to a category so features like progress counts and "what's next"
+ * work the same whether a board has three columns or seven.
+ */
+export type StateCategory = 'backlog' | 'active' | 'done';
+
+export const WorkflowDefinitionSchema = z.object({
+  name: z.string().optional(),
+  states: z.array(z.object({
+    id: z.number().int().positive(),
+    name: z.string().min(1),
+    category: z.enum(['backlog', 'active', 'done']),
+    description: z.string().optional(),
+  })).min(1, 'A workflow needs at least one state'),
+  // Allowed transitions keyed by source state ID (JSON object keys are strings)
+  transitions: z.record(z.string(), z.array(z.number().int().positive())),
+  guards: z.array(z.object({
+    from: z.number().int().positive().optional(),
+    to: z.number().int().positive(),
+    require_notes: z.boolean().optional(),
+    require_estimate: z.boolean().optional(),
+    message: z.string().optional(),
+  })).optional(),
+});
+
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+export type WorkflowState = WorkflowDefinition['states'][number];
+export type WorkflowGuard = NonNullable<WorkflowDefinition['guards']>[number];
+
+// A state as reported in tool output; IDs the workflow doesn't define have no category
+export type StateSummary = Pick<WorkflowState, 'id' | 'name'> & { category?: StateCategory };
+
+export type WorkflowSource = 'file' | 'repo' | 'server' | 'default';
+
+export interface TransitionContext {
+  story?: Pick<Story, 'estimate'>;
+  notes?: string;
+}
+
+export type TransitionCheck =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  name: 'Default',
+  states: [
+    { id: 1, name: 'Backlog', category: 'backlog' },
+    { id: 3, name: 'In Progress', category: 'active' },
+    { id: 5, name: 'Done', category: 'done' },
+  ],
+  transitions: {
+    '1': [3], // Backlog → In Progress
+    '3': [5, 1], // In Progress → Done or back to Backlog
+    '5': [1, 3], // Done → reopened states
+  },
+};
+
+export class Workflow {
+  readonly definition: WorkflowDefinition;
+  readonly source: WorkflowSource;
+  private statesById: Map<number, WorkflowState>;
+
+  constructor(definition: WorkflowDefinition, source: WorkflowSource = 'default') {
+    const parsed = WorkflowDefinitionSchema.parse(definition);
+    this.statesById = new Map(parsed.states.map(state => [state.id, state]));
+
+    for (const [from, targets] of Object.entries(parsed.transitions)) {
+      for (const id of [Number(from), ...targets]) {
+        if (!this.statesById.has(id)) {
+          throw new Error(`Workflow transition references unknown state ${id}`);
+        }
+      }
+    }
+
+    this.definition = parsed;
+    this.source = source;
+  }
+
+  get states(): WorkflowState[] {
+    return this.definition.states;
+  }
+
+  // New stories start in the first backlog state
+  get initialState(): WorkflowState {
+    return this.states.find(state => state.category === 'backlog') || this.states[0];
+  }
+
+  // Stories move here when work on them starts
+  get startState(): WorkflowState | undefined {
+    return this.statesIn('active')[0];
+  }
+
+  getState(id: number): WorkflowState | undefined {
+    return this.statesById.get(id);
+  }
+
+  stateName(id: number): string {
+    return this.getState(id)?.name || `Status ${id}`;
+  }
+
+  stateSummary(id: number): StateSummary {
+    return this.getState(id) || { id, name: this.stateName(id) };
+  }
+
+  categoryOf(id: number): StateCategory | undefined {
+    return this.getState(id)?.category;
+  }
+
+  isCategory(id: number, category: StateCategory): boolean {
+    return this.categoryOf(id) === category;
+  }
+
+  statesIn(category: StateCategory): WorkflowState[] {
+    return this.states.filter(state => state.category === category);
+  }
+
+  // Accept a state ID (as number or string) or a state name, case-insensitively
+  resolveStatus(input: string | number): number {
+    const numeric = typeof input === 'number' ? input : Number(input.trim());
+    if (Number.isInteger(numeric) && this.statesById.has(numeric)) {
+      return numeric;
+    }
+
+    if (typeof input === 'string') {
+      const needle = input.trim().toLowerCase();
+      const match = this.states.find(state => state.name.toLowerCase() === needle);
+      if (match) {
+        return match.id;
+      }
+    }
+
+    throw new Error(`Unknown status "${input}". Valid statuses: ${this.statusHelp()}`);
+  }
+
+  nextStates(from: number): WorkflowState[] {
+    return (this.definition.transitions[String(from)] || [])
+      .map(id => this.getState(id))
+      .filter((state): state is WorkflowState => !!state);
+  }
+
+  canTransition(from: number, to: number): boolean {
+    return (this.definition.transitions[String(from)] || []).includes(to);
+  }
+
+  checkTransition(from: number, to: number, context: TransitionContext = {}): TransitionCheck {
+    if (!this.canTransition(from, to)) {
+      const next = this.nextStates(from).map(state => state.name);
+      return {
+        allowed: false,
+        reason: `Cannot move story from "${this.stateName(from)}" to "${this.stateName(to)}".\n\nValid next steps: ${next.length > 0 ? next.join(', ') : 'none'}`,
+      };
+    }
+
+    for (const guard of this.guardsFor(from, to)) {
+      if (guard.require_notes && !context.notes?.trim()) {
+        return {
+          allowed: false,
+          reason: guard.message || `Moving to "${this.stateName(to)}" requires notes describing the change.`,
+        };
+      }
+      if (guard.require_estimate && !context.story?.estimate) {
+        return {
+          allowed: false,
+          reason: guard.message || `Moving to "${this.stateName(to)}" requires the story to have an estimate.`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  // e.g. "Backlog(1) → In Progress(3) → Done(5)"
+  describe(): string {
+    return this.states.map(state => `${state.name}(${state.id})`).join(' → ');
+  }
+
+  // e.g. "1=Backlog, 3=In Progress, 5=Done"
+  statusHelp(): string {
+    return this.states.map(state => `${state.id}=${state.name}`).join(', ');
+  }
+
+  statusEnum(): string[] {
+    return this.states.map(state => String(state.id));
+  }
+
+  private guardsFor(from: number, to: number): WorkflowGuard[] {
+    return (this.definition.guards || []).filter(guard =>
+      guard.to === to && (guard.from === undefined || guard.from === from)
+    );
+  }
+}
+
+/**
+ * Load the workflow defined locally, without touching the network. Order:
+ *  1. SOFTYPM_WORKFLOW_FILE - path to a JSON workflow definition
+ *  2. "workflow" in the workspace's .softypm.json
+ * Returns null when neither is configured. A named file that is missing or unreadable is an error,
+ * rather than a silent switch to the default board.
+ */
+export function loadLocalWorkflow(workspaceRoot: string): Workflow | null {
+  const workflowFile = process.env.SOFTYPM_WORKFLOW_FILE;
+  if (workflowFile) {
+    if (!existsSync(workflowFile)) {
+      throw new Error(`Workflow file not found: ${workflowFile}`);
+    }
+    try {
+      return new Workflow(JSON.parse(readFileSync(workflowFile, 'utf8')) as WorkflowDefinition, 'file');
+    } catch (error) {
+      const detail = error instanceof z.ZodError
+        ? error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`).join('; ')
+        : error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid workflow file ${workflowFile}: ${detail}`);
+    }
+  }
+
+  const repoWorkflow = readRepoConfig(workspaceRoot)?.workflow;
+  if (repoWorkflow) {
+    return new Workflow(repoWorkflow as WorkflowDefinition, 'repo');
+  }
+
+  return null;
+}
+
+/**
+ * Fetch a project's workflow from SoftyPM. A project without one (no definition, or a 404) gets the
+ * default 1/3/5 board; any other failure is thrown so an outage isn't mistaken for "no custom workflow".
+ */
+export async function fetchProjectWorkflow(client: SoftYPMClient, projectId: number): Promise<Workflow> {
+  let definition: unknown;
+  try {
+    definition = await client.getProjectWorkflow(projectId);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return new Workflow(DEFAULT_WORKFLOW);
+    }
+    throw error;
+  }
+
+  return definition ? new Workflow(definition as WorkflowDefinition, 'server') : new Workflow(DEFAULT_WORKFLOW);
+}
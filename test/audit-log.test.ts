@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AuditLog } from '../src/audit-log.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('audit log', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await startHarness();
+    harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    await harness.call('set_project_context', { project_id: 42 });
+  });
+
+  afterEach(() => harness.close());
+
+  const logEntries = () => readFileSync(join(harness.stateDir, 'audit-log.jsonl'), 'utf8')
+    .trim()
+    .split('\n')
+    .map(line => JSON.parse(line));
+
+  test('records changes with their before and after state', async () => {
+    await harness.call('create_story', { name: 'Card form', estimate: 2 });
+    const [story] = harness.mock.stories;
+    await harness.call('update_story_status', { story_id: story.id, status: 3 });
+    await harness.call('get_story', { story_id: story.id });
+
+    const entries = logEntries();
+    assert.deepEqual(entries.map(entry => entry.tool), ['create_story', 'update_story_status']);
+    assert.deepEqual(entries[1].arguments, { story_id: story.id, status: 3 });
+    assert.equal(entries[1].before.status, 1);
+    assert.equal(entries[1].after.status, 3);
+
+    const text = await harness.call('recent_changes');
+    assert.match(text, /Recent Changes\*\* \(2 of 2, newest first\)/);
+    assert.match(text, new RegExp(`#2\\*\\* .* · \`update_story_status\` · #${story.id} Card form: Backlog → In Progress \\(↩️ can be undone\\)\\n• \\*\\*#1\\*\\*`));
+  });
+
+  test('undo_last_change reverts a transition, then archives the created story', async () => {
+    await harness.call('create_story', { name: 'Card form', estimate: 2 });
+    const [story] = harness.mock.stories;
+    await harness.call('update_story_status', { story_id: story.id, status: 3 });
+
+    const reverted = await harness.call('undo_last_change');
+    assert.match(reverted, new RegExp(`Undone #2\\*\\* \\(\`update_story_status\`\\): #${story.id} Card form: In Progress → Backlog`));
+    assert.match(reverted, /Discarded the running timer/);
+    assert.equal(story.status, 1);
+
+    assert.match(await harness.call('undo_last_change'), new RegExp(`Undone #1\\*\\* \\(\`create_story\`\\): Archived #${story.id} Card form`));
+    assert.ok(story.archived_at);
+
+    assert.match(await harness.call('undo_last_change'), /Nothing to undo/);
+    assert.match(await harness.call('recent_changes', { tool: 'create_story' }), /~~undone by #4~~/);
+  });
+
+  test('undo refuses when the story changed since or the change is not undoable', async () => {
+    const story = harness.mock.addStory({ name: 'Refunds', project_id: 42 });
+    await harness.call('update_story_status', { story_id: story.id, status: 3 });
+    await harness.call('add_story_comment', { story_id: story.id, comment: 'Started on the API' });
+
+    assert.match(await harness.call('undo_last_change'), /Can't undo #2\*\* \(`add_story_comment`/);
+
+    story.status = 5;
+    const conflict = await harness.call('undo_last_change', { change_id: 1 });
+    assert.match(conflict, new RegExp(`#${story.id} is now Done, not In Progress, so it has changed since`));
+    assert.equal(story.status, 5);
+  });
+
+  test('records timers, and undoing a start discards the timer', async () => {
+    const story = harness.mock.addStory({ name: 'Refunds', project_id: 42 });
+    await harness.call('start_timer', { story_id: story.id });
+    await harness.call('start_timer', { story_id: story.id });
+
+    assert.match(await harness.call('undo_last_change'), new RegExp(`Undone #1\\*\\* \\(\`start_timer\`\\): Discarded the timer on #${story.id}`));
+    assert.match((await harness.callError('stop_timer', { story_id: story.id })).message, /No timer is running/);
+
+    await harness.call('start_timer', { story_id: story.id });
+    await harness.call('stop_timer', { story_id: story.id });
+    assert.deepEqual(logEntries().map(entry => entry.tool), ['start_timer', 'undo_last_change', 'start_timer', 'stop_timer']);
+    assert.match(logEntries()[3].summary, /after less than a minute, nothing logged/);
+  });
+
+  test('undoes a story created offline once the queue has been replayed', async () => {
+    await harness.call('list_my_stories');
+    harness.mock.fail({ path: /.*/, disconnect: true });
+    assert.match(await harness.call('create_story', { name: 'Written offline', estimate: 2 }), /#-1/);
+
+    harness.mock.clearFailures();
+    assert.match(await harness.call('sync_status', { replay: true }), /1 applied/);
+    const story = harness.mock.stories.find(s => s.name === 'Written offline')!;
+    assert.deepEqual(logEntries()[0].story_ids, [story.id]);
+
+    assert.match(await harness.call('undo_last_change'), new RegExp(`Undone #1\\*\\* \\(\`create_story\`\\): Archived #${story.id} Written offline`));
+    assert.ok(story.archived_at);
+  });
+
+  test('gives unique IDs when two processes append to the same log', () => {
+    const cli = new AuditLog();
+    const server = new AuditLog();
+    const change = { profile: 'default', tool: 'log_time', arguments: {}, summary: 'Logged', story_ids: [], before: null, after: null };
+
+    assert.deepEqual([cli.append(change).id, server.append(change).id, cli.append(change).id], [1, 2, 3]);
+  });
+});
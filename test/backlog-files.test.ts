@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Project } from '../src/softypm-client.js';
+import { BacklogExport, parseBacklog, serializeBacklog } from '../src/backlog-files.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('backlog files', () => {
+  const doc: BacklogExport = {
+    project: { id: 1, name: 'Checkout' },
+    exported_at: '2026-10-18T09:00:00Z',
+    epics: [{
+      id: 10,
+      name: 'Payments',
+      stories: [
+        { id: 1, name: 'Card form', estimate: 3, status: 'Done', done: true },
+        { id: 2, name: 'Refunds, partial', description: 'Say "partial"\nand full', status: 'In Progress', done: false },
+      ],
+    }],
+    stories: [{ id: 3, name: 'Loose end', estimate: 1.5, status: 'Backlog', done: false }],
+  };
+
+  test('reads TODO-style Markdown with headings as epics', () => {
+    const { rows, errors } = parseBacklog([
+      '# Roadmap',
+      '',
+      'Some intro text.',
+      '- Ungrouped idea',
+      '## Epic: Search',
+      '- [ ] Index stories (4h)',
+      '  Use the existing queue',
+      '  - and batch updates',
+      '- [x] Search box [1.5 hours]',
+      '1. Numbered item',
+      '- [ ]  (2h)',
+    ].join('\n'), 'markdown');
+
+    assert.deepEqual(rows.map(row => [row.line, row.epic, row.name, row.estimate, row.done]), [
+      [4, undefined, 'Ungrouped idea', undefined, undefined],
+      [6, 'Search', 'Index stories', 4, false],
+      [9, 'Search', 'Search box', 1.5, true],
+      [10, 'Search', 'Numbered item', undefined, undefined],
+    ]);
+    assert.equal(rows[1].description, 'Use the existing queue\n- and batch updates');
+    assert.deepEqual(errors, [{ line: 11, error: 'List item has no story name' }]);
+  });
+
+  test('round-trips every format', () => {
+    for (const format of ['markdown', 'csv', 'json'] as const) {
+      const { rows, errors } = parseBacklog(serializeBacklog(doc, format), format);
+      assert.deepEqual(errors, []);
+      assert.deepEqual(rows.map(row => [row.epic, row.name, row.description, row.estimate]), [
+        ['Payments', 'Card form', undefined, 3],
+        ['Payments', 'Refunds, partial', 'Say "partial"\nand full', undefined],
+        [undefined, 'Loose end', undefined, 1.5],
+      ], format);
+    }
+  });
+
+  test('reports bad CSV and JSON rows individually', () => {
+    const csv = parseBacklog('Title,Estimate\nGood,2h\n,1\nBad,lots\n', 'csv');
+    assert.deepEqual(csv.rows.map(row => [row.line, row.name, row.estimate]), [[2, 'Good', 2]]);
+    assert.deepEqual(csv.errors, [{ line: 3, error: 'Missing story name' }, { line: 4, error: 'Invalid estimate "lots"' }]);
+
+    const json = parseBacklog(JSON.stringify([{ name: 'Fine', epic: 'Ops' }, { estimate: 2 }]), 'json');
+    assert.deepEqual(json.rows.map(row => [row.line, row.name, row.epic]), [[1, 'Fine', 'Ops']]);
+    assert.equal(json.errors[0].line, 2);
+    assert.match(parseBacklog('{', 'json').errors[0].error, /Invalid JSON backlog/);
+  });
+});
+
+describe('backlog file tools', () => {
+  let harness: Harness;
+  let project: Project;
+  let dir: string;
+
+  beforeEach(async () => {
+    harness = await startHarness();
+    // The harness's state directory is also the workspace root
+    dir = join(harness.stateDir, 'docs');
+    mkdirSync(dir);
+    project = harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    await harness.call('set_project_context', { project_id: project.id });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  test('import_backlog previews, then creates epics and stories, skipping existing names', async () => {
+    const epic = harness.mock.addEpic({ name: 'Payments', project_id: project.id });
+    const existing = harness.mock.addStory({ name: 'Card Form', project_id: project.id, epic_id: epic.id });
+    const file = join(dir, 'TODO.md');
+    writeFileSync(file, [
+      '# TODO',
+      '## Payments',
+      '- [ ] Card form (3h)',
+      '- [ ] Refunds (2h)',
+      '## Search',
+      '- [x] Search box (1h)',
+      '- [ ] Reindex everything (12h)',
+      '- [ ] refunds',
+    ].join('\n'));
+
+    const preview = await harness.call('import_backlog', { file });
+    assert.match(preview, /Import Preview.*2 to create, 2 skipped, 1 error/);
+    assert.match(preview, /Epics\*\*: Payments \(#\d+\), Search \(new\)/);
+    assert.match(preview, new RegExp(`Line 3: Card form \\(3h\\) → Payments - already exists as #${existing.id}`));
+    assert.match(preview, /Line 7: Reindex everything \(12h\) → Search - estimated at 12h/);
+    assert.match(preview, /Line 8: refunds → Search - repeated in this file/);
+    assert.equal(harness.mock.requestsTo('POST', '/stories').length, 0);
+    assert.equal(harness.mock.requestsTo('POST', '/epics').length, 0);
+
+    const output = JSON.parse(await harness.call('import_backlog', { file, dry_run: false, format: 'json' }));
+    assert.deepEqual(output.result.rows.map((row: any) => row.outcome), ['existing', 'created', 'created', 'invalid', 'duplicate']);
+
+    const search = harness.mock.epics.find(e => e.name === 'Search')!;
+    const refunds = harness.mock.stories.find(s => s.name === 'Refunds')!;
+    const searchBox = harness.mock.stories.find(s => s.name === 'Search box')!;
+    assert.equal(refunds.epic_id, epic.id);
+    assert.equal(refunds.status, 1);
+    assert.equal(searchBox.epic_id, search.id);
+    assert.equal(searchBox.status, 5);
+
+    // Importing again creates nothing new
+    assert.match(await harness.call('import_backlog', { file, dry_run: false }), /0 created, 4 skipped/);
+  });
+
+  test('export_backlog writes a snapshot that import_backlog reads back', async () => {
+    const epic = harness.mock.addEpic({ name: 'Payments', project_id: project.id });
+    harness.mock.addStory({ name: 'Card form', project_id: project.id, epic_id: epic.id, estimate: 3, status: 3 });
+    harness.mock.addStory({ name: 'Shipped', project_id: project.id, estimate: 2, status: 5 });
+    const file = join(dir, 'backlog.csv');
+
+    assert.match(await harness.call('export_backlog', { file }), /2 stories in 1 epic\(s\), 5h estimated/);
+    assert.equal(readFileSync(file, 'utf8'), `id,epic,name,description,estimate,status\n${harness.mock.stories[0].id},Payments,Card form,,3,In Progress\n${harness.mock.stories[1].id},,Shipped,,2,Done\n`);
+
+    const error = await harness.callError('export_backlog', { file });
+    assert.match(error.message, /already exists. Pass overwrite: true/);
+
+    assert.match(await harness.call('export_backlog', { file, include_done: false, overwrite: true }), /1 stories/);
+    assert.match(await harness.call('import_backlog', { file }), /0 to create, 1 skipped, 0 error/);
+  });
+
+  test('refuses paths outside the workspace root', async () => {
+    const outside = join(tmpdir(), `softypm-outside-${process.pid}.md`);
+
+    for (const file of ['../backlog.md', 'docs/../../backlog.md', outside]) {
+      const exported = await harness.callError('export_backlog', { file, overwrite: true });
+      assert.match(exported.message, /is outside the workspace root/);
+      const imported = await harness.callError('import_backlog', { file });
+      assert.match(imported.message, /is outside the workspace root/);
+    }
+    assert.equal(existsSync(outside), false);
+
+    assert.match(await harness.call('export_backlog', { file: 'docs/backlog.md' }), /0 stories/);
+    assert.equal(existsSync(join(dir, 'backlog.md')), true);
+  });
+});
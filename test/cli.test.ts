@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runCli } from '../src/cli.js';
+import type { Project } from '../src/softypm-client.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('cli', () => {
+  let harness: Harness;
+  let project: Project;
+  let out: string[];
+  let err: string[];
+
+  const run = (...argv: string[]) => runCli(argv, () => harness.server, {
+    out: text => out.push(text),
+    err: text => err.push(text),
+  });
+
+  beforeEach(async () => {
+    harness = await startHarness();
+    project = harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    out = [];
+    err = [];
+  });
+
+  afterEach(() => harness.close());
+
+  test('sets the project and lists its stories by status', async () => {
+    harness.mock.addStory({ name: 'Card form', project_id: project.id });
+    harness.mock.addStory({ name: 'Refunds', project_id: project.id, status: 3 });
+
+    assert.equal(await run('use', '42'), 0);
+    assert.equal(await run('stories', 'list', '--status', '3', '--json'), 0);
+    const { result } = JSON.parse(out[1]);
+    assert.deepEqual(result.stories.map((story: { name: string }) => story.name), ['Refunds']);
+  });
+
+  test('moves stories with the same workflow rules as the MCP tool', async () => {
+    const story = harness.mock.addStory({ name: 'Card form', project_id: project.id });
+
+    assert.equal(await run('story', 'done', String(story.id)), 1);
+    assert.match(err[0], /is Backlog and can't be finished from there. Next states: In Progress/);
+    assert.equal(story.status, 1);
+
+    assert.equal(await run('story', 'start', String(story.id)), 0);
+    assert.match(out[0], /Backlog → In Progress/);
+    assert.equal(story.status, 3);
+
+    assert.equal(await run('story', 'done', String(story.id), '--notes', 'Shipped'), 0);
+    assert.equal(story.status, 5);
+    assert.equal(harness.mock.requestsTo('POST', `/stories/${story.id}/comments`).length, 1);
+
+    // A move the workflow doesn't allow is rejected by update_story_status itself
+    const fresh = harness.mock.addStory({ name: 'Refunds', project_id: project.id });
+    assert.equal(await run('story', 'move', String(fresh.id), 'Done'), 1);
+    assert.match(out[out.length - 1], /Invalid Workflow Transition/);
+    assert.equal(fresh.status, 1);
+  });
+
+  test('reports usage errors and API failures with exit codes', async () => {
+    assert.equal(await run('story', 'start', 'abc'), 2);
+    assert.match(err[0], /story ID must be a positive number, got "abc"/);
+    assert.equal(await run('--bogus'), 2);
+
+    assert.equal(await run('story', 'show', '999'), 1);
+    assert.doesNotMatch(err[2], /MCP error/);
+  });
+
+  test('doctor checks the connection, project and workflow', async () => {
+    await run('use', '42');
+    assert.equal(await run('doctor'), 0);
+    assert.match(out[1], /✅ \*\*Connection\*\*/);
+    assert.match(out[1], /✅ \*\*Project\*\*: Checkout Revamp \(ID: 42\) \(from saved context\)/);
+    assert.match(out[1], /✅ \*\*Workflow\*\*: Backlog\(1\) → In Progress\(3\) → Done\(5\) \(default\)/);
+
+    harness.mock.healthy = false;
+    assert.equal(await run('doctor', '--json'), 1);
+    const { checks } = JSON.parse(out[2]);
+    assert.deepEqual(checks.map((check: { status: string }) => check.status), ['pass', 'pass', 'fail']);
+  });
+
+  test('doctor fails the workflow check when the workflow can\'t be fetched', async () => {
+    await run('use', '42');
+    harness.mock.fail({ method: 'GET', path: '/claude-code/projects/42/workflow' });
+
+    assert.equal(await run('doctor'), 1);
+    assert.match(out[1], /✅ \*\*Project\*\*: Checkout Revamp/);
+    assert.match(out[1], /❌ \*\*Workflow\*\*: Project #42: Failed to get workflow for project 42/);
+  });
+
+  test('prints help without creating a server', async () => {
+    const code = await runCli(['--help'], () => {
+      throw new Error('Invalid policy file');
+    }, { out: text => out.push(text), err: text => err.push(text) });
+
+    assert.equal(code, 0);
+    assert.match(out[0], /Usage: softypm/);
+  });
+});
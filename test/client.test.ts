@@ -0,0 +1,164 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SoftYPMClient } from '../src/softypm-client.js';
+import { OfflineStore } from '../src/offline-store.js';
+import { AuthenticationError, NotFoundError, RateLimitError, ServerError, ValidationError } from '../src/errors.js';
+import { MockSoftYPM, ResponseShape } from './mock-softypm-server.js';
+
+const mock = new MockSoftYPM();
+const clientFor = (overrides: Partial<ConstructorParameters<typeof SoftYPMClient>[0]> = {}) =>
+  new SoftYPMClient({ baseURL: mock.baseURL, apiToken: mock.token, retry: { retries: 0 }, ...overrides });
+
+before(() => mock.start());
+after(() => mock.stop());
+
+beforeEach(() => {
+  mock.shape = 'named';
+  mock.clearFailures();
+  mock.projects = [];
+  mock.stories = [];
+  mock.epics = [];
+  mock.requests = [];
+});
+
+describe('response shapes', () => {
+  for (const shape of ['named', 'data', 'bare'] as ResponseShape[]) {
+    test(`reads ${shape} responses`, async () => {
+      mock.shape = shape;
+      const project = mock.addProject({ name: 'Shapes' });
+      const story = mock.addStory({ name: 'Read me', project_id: project.id });
+      const client = clientFor();
+
+      assert.deepEqual((await client.listProjects()).map(p => p.name), ['Shapes']);
+      assert.equal((await client.getProject(project.id)).name, 'Shapes');
+      assert.equal((await client.getStory(story.id)).name, 'Read me');
+      assert.equal((await client.getProjectStories(project.id)).length, 1);
+    });
+  }
+
+  test('createStory accepts story or data', async () => {
+    const project = mock.addProject({ name: 'Writes' });
+    const client = clientFor();
+
+    for (const shape of ['named', 'data'] as ResponseShape[]) {
+      mock.shape = shape;
+      const story = await client.createStory({ name: `Via ${shape}`, project_id: project.id });
+      assert.equal(story.name, `Via ${shape}`);
+      assert.ok(story.id > 0);
+    }
+  });
+
+  test('collects stories from epics and the project', async () => {
+    const project = mock.addProject({ name: 'Structure' });
+    const epic = mock.addEpic({ name: 'Epic', project_id: project.id });
+    mock.addStory({ name: 'In epic', project_id: project.id, epic_id: epic.id });
+    mock.addStory({ name: 'Loose', project_id: project.id });
+
+    const names = (await clientFor().getProjectStories(project.id)).map(story => story.name).sort();
+    assert.deepEqual(names, ['In epic', 'Loose']);
+  });
+});
+
+describe('errors', () => {
+  test('maps HTTP failures to typed errors', async () => {
+    const client = clientFor();
+    await assert.rejects(client.getStory(404404), NotFoundError);
+    await assert.rejects(clientFor({ apiToken: 'wrong' }).listProjects(), AuthenticationError);
+
+    mock.fail({ path: '/projects', status: 500 });
+    await assert.rejects(client.listProjects(), ServerError);
+  });
+
+  test('keeps the API field errors from a 422', async () => {
+    const project = mock.addProject({ name: 'Validation' });
+
+    const error = await clientFor().createStory({ name: ' ', project_id: project.id }).catch(e => e);
+    assert.ok(error instanceof ValidationError);
+    assert.deepEqual(error.details, { name: ['The name field is required.'] });
+    assert.match(error.message, /^Failed to create story: Validation failed/);
+  });
+
+  test('retries idempotent requests after a server error', async () => {
+    mock.addProject({ name: 'Flaky' });
+    mock.fail({ path: '/projects', status: 503, times: 2 });
+
+    const projects = await clientFor({ retry: { retries: 2, baseDelayMs: 1 } }).listProjects();
+    assert.equal(projects.length, 1);
+    assert.equal(mock.requestsTo('GET', '/projects').length, 3);
+  });
+
+  test('does not retry a POST after a server error', async () => {
+    const project = mock.addProject({ name: 'No duplicates' });
+    mock.fail({ method: 'POST', path: '/stories', status: 503, times: 1 });
+
+    await assert.rejects(clientFor({ retry: { retries: 2, baseDelayMs: 1 } }).createStory({ name: 'Once', project_id: project.id }), ServerError);
+    assert.equal(mock.requestsTo('POST', '/stories').length, 1);
+  });
+
+  test('waits for Retry-After on a 429, or gives up when it is too long', async () => {
+    mock.addProject({ name: 'Limited' });
+    mock.fail({ path: '/projects', status: 429, headers: { 'Retry-After': '0' }, times: 1 });
+    assert.equal((await clientFor({ retry: { retries: 1 } }).listProjects()).length, 1);
+
+    mock.fail({ path: '/projects', status: 429, headers: { 'Retry-After': '120' }, times: 1 });
+    const error = await clientFor({ retry: { retries: 1 } }).listProjects().catch(e => e);
+    assert.ok(error instanceof RateLimitError);
+    assert.equal(error.retryAfterMs, 120000);
+  });
+});
+
+describe('offline mode', () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), 'softypm-offline-'));
+    process.env.SOFTYPM_STATE_DIR = stateDir;
+  });
+
+  afterEach(() => rmSync(stateDir, { recursive: true, force: true }));
+
+  test('serves cached reads and queues writes until the API is back', async () => {
+    const project = mock.addProject({ name: 'Offline' });
+    const story = mock.addStory({ name: 'Cached', project_id: project.id });
+    const client = clientFor({ offlineStore: new OfflineStore('client-test') });
+
+    await client.getProjectStories(project.id);
+    mock.fail({ path: /.*/, disconnect: true });
+
+    assert.equal((await client.getStory(story.id)).name, 'Cached');
+    assert.ok(client.offlineSince);
+
+    const placeholder = await client.createStory({ name: 'Written offline', project_id: project.id });
+    assert.ok(placeholder.id < 0);
+    assert.deepEqual(await client.updateStoryStatus(placeholder.id, 3, 1), { queued: true });
+    assert.equal(client.pendingWrites.length, 2);
+
+    mock.clearFailures();
+    const report = await client.syncPendingWrites();
+    assert.equal(report.applied.length, 2);
+    assert.equal(report.remaining, 0);
+    assert.equal(client.offlineSince, null);
+
+    const created = mock.stories.find(s => s.name === 'Written offline');
+    assert.equal(created?.status, 3);
+  });
+
+  test('holds a queued status change that conflicts with a server edit', async () => {
+    const project = mock.addProject({ name: 'Conflicts' });
+    const story = mock.addStory({ name: 'Contested', project_id: project.id, status: 1 });
+    const client = clientFor({ offlineStore: new OfflineStore('conflicts') });
+
+    mock.fail({ path: /.*/, disconnect: true });
+    await client.updateStoryStatus(story.id, 3, 1);
+    mock.clearFailures();
+    story.status = 5;
+
+    const report = await client.syncPendingWrites();
+    assert.equal(report.conflicts.length, 1);
+    assert.equal(story.status, 5);
+    assert.ok(client.pendingWrites[0].conflict);
+  });
+});
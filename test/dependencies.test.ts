@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Epic, Story } from '../src/softypm-client.js';
+import { createsCycle, recommendNext } from '../src/dependencies.js';
+import { DEFAULT_WORKFLOW, Workflow } from '../src/workflow.js';
+import { Harness, startHarness } from './harness.js';
+
+const story = (id: number, fields: Partial<Story> = {}): Story =>
+  ({ id, name: `Story ${id}`, project_id: 1, status: 1, ...fields }) as Story;
+
+describe('recommendNext', () => {
+  const workflow = new Workflow(DEFAULT_WORKFLOW);
+  const epics = [
+    { id: 10, name: 'Payments', project_id: 1, priority: 1 },
+    { id: 20, name: 'Reporting', project_id: 1, priority: 2 },
+  ] as Epic[];
+
+  test('ranks by epic priority, then age, then estimate', () => {
+    const stories = [
+      story(1, { epic_id: 20, created_at: '2026-01-01T00:00:00Z' }),
+      story(2, { epic_id: 10, created_at: '2026-03-01T00:00:00Z', estimate: 4 }),
+      story(3, { epic_id: 10, created_at: '2026-03-01T00:00:00Z', estimate: 2 }),
+      story(4, { epic_id: 10, created_at: '2026-02-01T00:00:00Z', estimate: 6 }),
+      story(5, { created_at: '2025-01-01T00:00:00Z' }),
+    ];
+
+    const plan = recommendNext(stories, epics, workflow, { limit: 10 }, new Date('2026-03-11T00:00:00Z'));
+    assert.deepEqual(plan.recommended.map(item => item.story.id), [4, 3, 2, 1, 5]);
+    assert.equal(plan.recommended[1].age_days, 10);
+    assert.equal(plan.recommended[1].epic_name, 'Payments');
+  });
+
+  test('holds back stories with unfinished blockers', () => {
+    const stories = [
+      story(1, { status: 3 }),
+      story(2, { blocked_by: [1] }),
+      story(3, { status: 5 }),
+      story(4, { blocked_by: [3] }),
+      story(5, { blocked_by: [6], archived_at: '2026-03-01T00:00:00Z' }),
+      story(6, { archived_at: '2026-03-01T00:00:00Z' }),
+      story(7, { blocked_by: [6] }),
+    ];
+
+    const plan = recommendNext(stories, [], workflow, { limit: 3 });
+    assert.deepEqual(plan.recommended.map(item => item.story.id), [4, 7]);
+    assert.deepEqual(plan.blocked.map(item => [item.story.id, item.blockers.map(b => b.id)]), [[2, [1]]]);
+    assert.deepEqual(plan.in_progress.map(s => s.id), [1]);
+  });
+
+  test('treats blockers it cannot see as unfinished unless they are passed in', () => {
+    const stories = [story(1, { blocked_by: [99] }), story(2, { blocked_by: [98] })];
+    const otherProject = [story(98, { project_id: 2, status: 5 })];
+
+    const plan = recommendNext(stories, [], workflow, { limit: 3, blockers: otherProject });
+    assert.deepEqual(plan.recommended.map(item => item.story.id), [2]);
+    assert.deepEqual(plan.blocked.map(item => [item.story.id, item.unknown_blockers]), [[1, [99]]]);
+
+    const deleted = recommendNext(stories, [], workflow, { limit: 3, blockers: otherProject, deletedBlockers: [99] });
+    assert.deepEqual(deleted.recommended.map(item => item.story.id), [1, 2]);
+  });
+
+  test('detects dependency cycles', () => {
+    const stories = [story(1, { blocked_by: [2] }), story(2, { blocked_by: [3] }), story(3)];
+    assert.equal(createsCycle(3, 1, stories), true);
+    assert.equal(createsCycle(1, 3, stories), false);
+  });
+});
+
+describe('dependency tools', () => {
+  let harness: Harness;
+  let schema: Story;
+  let api: Story;
+
+  beforeEach(async () => {
+    harness = await startHarness();
+    harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    schema = harness.mock.addStory({ name: 'Payments schema', project_id: 42 });
+    api = harness.mock.addStory({ name: 'Payments API', project_id: 42 });
+  });
+
+  afterEach(() => harness.close());
+
+  test('add_dependency links stories and rejects cycles', async () => {
+    const text = await harness.call('add_dependency', { story_id: api.id, blocked_by_story_id: schema.id });
+    assert.match(text, new RegExp(`Dependency Added\\*\\*: #${api.id} Payments API is blocked by #${schema.id} Payments schema \\[Backlog\\]`));
+    assert.deepEqual(api.blocked_by, [schema.id]);
+    assert.deepEqual(schema.blocks, [api.id]);
+
+    assert.match(await harness.call('add_dependency', { story_id: api.id, blocked_by_story_id: schema.id }), /is already blocked by/);
+
+    const error = await harness.callError('add_dependency', { story_id: schema.id, blocked_by_story_id: api.id });
+    assert.match(error.message, /would create a cycle/);
+    assert.equal(schema.blocked_by, undefined);
+
+    assert.match(await harness.call('remove_dependency', { story_id: api.id, blocked_by_story_id: schema.id }), /Dependency Removed/);
+    assert.deepEqual(api.blocked_by, []);
+  });
+
+  test('next_story skips blocked work and starting it anyway warns', async () => {
+    await harness.call('add_dependency', { story_id: api.id, blocked_by_story_id: schema.id });
+
+    const text = await harness.call('next_story', { project_id: 42 });
+    assert.match(text, new RegExp(`1\\. #${schema.id} - Payments schema`));
+    assert.doesNotMatch(text, new RegExp(`\\d\\. #${api.id}`));
+    assert.match(text, new RegExp(`Blocked\\*\\* \\(1\\):\\n• #${api.id} Payments API ← #${schema.id} Payments schema \\[Backlog\\]`));
+
+    const started = await harness.call('update_story_status', { story_id: api.id, status: 3 });
+    assert.match(started, new RegExp(`Still blocked by\\*\\*: #${schema.id} Payments schema \\[Backlog\\]`));
+    assert.equal(api.status, 3);
+  });
+
+  test('next_story checks blockers in other projects', async () => {
+    harness.mock.addProject({ id: 7, name: 'Platform' });
+    const gateway = harness.mock.addStory({ name: 'Gateway', project_id: 7, status: 3 });
+    await harness.call('add_dependency', { story_id: api.id, blocked_by_story_id: gateway.id });
+
+    const text = await harness.call('next_story', { project_id: 42 });
+    assert.doesNotMatch(text, new RegExp(`\\d\\. #${api.id}`));
+    assert.match(text, new RegExp(`• #${api.id} Payments API ← #${gateway.id} Gateway \\[In Progress\\]`));
+
+    gateway.status = 5;
+    assert.match(await harness.call('next_story', { project_id: 42 }), new RegExp(`\\d\\. #${api.id} - Payments API`));
+  });
+
+  test('a blocker that fails to load keeps blocking until SoftyPM says it is gone', async () => {
+    harness.mock.addProject({ id: 7, name: 'Platform' });
+    const gateway = harness.mock.addStory({ name: 'Gateway', project_id: 7 });
+    await harness.call('add_dependency', { story_id: api.id, blocked_by_story_id: gateway.id });
+    harness.mock.fail({ method: 'GET', path: `/stories/${gateway.id}`, status: 403 });
+
+    const text = await harness.call('next_story', { project_id: 42 });
+    assert.match(text, new RegExp(`• #${api.id} Payments API ← #${gateway.id} \\[couldn't be loaded\\]`));
+    const info = JSON.parse(await harness.call('get_project_info', { project_id: 42, format: 'json' }));
+    assert.deepEqual(info.result.next_stories.map((story: Story) => story.id), [schema.id]);
+    const started = await harness.call('update_story_status', { story_id: api.id, status: 3 });
+    assert.match(started, new RegExp(`Still blocked by\\*\\*: #${gateway.id} \\[couldn't be loaded\\]`));
+
+    harness.mock.clearFailures();
+    harness.mock.fail({ method: 'GET', path: `/stories/${gateway.id}`, status: 404 });
+    api.status = 1;
+    assert.match(await harness.call('next_story', { project_id: 42 }), new RegExp(`\\d\\. #${api.id} - Payments API`));
+    const restarted = await harness.call('update_story_status', { story_id: api.id, status: 3 });
+    assert.doesNotMatch(restarted, /Still blocked by/);
+  });
+});
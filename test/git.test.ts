@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Project, Story } from '../src/softypm-client.js';
+import { branchStoryId, storyIdsIn } from '../src/git.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('story references', () => {
+  test('finds story IDs in commit messages', () => {
+    assert.deepEqual(storyIdsIn('Fix totals (#12), see story-34 and Story/56'), [12, 34, 56]);
+    assert.deepEqual(storyIdsIn('Escape &#39; in names, bump to v2.3'), []);
+  });
+
+  test('finds the story a branch is for', () => {
+    assert.equal(branchStoryId('story-123-card-form'), 123);
+    assert.equal(branchStoryId('feature/45-refunds'), 45);
+    assert.equal(branchStoryId('fix/stories/78'), 78);
+    assert.equal(branchStoryId('release/v2.3'), null);
+  });
+});
+
+describe('git tools', () => {
+  let harness: Harness;
+  let project: Project;
+  let story: Story;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', ...args], { cwd: harness.stateDir, encoding: 'utf8' });
+  const commit = (message: string) => {
+    writeFileSync(join(harness.stateDir, 'file.txt'), message);
+    git('add', 'file.txt');
+    git('commit', '-q', '-m', message);
+  };
+
+  beforeEach(async () => {
+    // The harness's state directory doubles as the server's workspace root
+    harness = await startHarness();
+    project = harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    story = harness.mock.addStory({ name: 'Card form', project_id: project.id });
+
+    git('init', '-q', '-b', 'main');
+    commit('Initial commit');
+    git('checkout', '-q', '-b', `story-${story.id}-card-form`);
+    commit('Add card form');
+    commit(`Validate card numbers (#${story.id})`);
+  });
+
+  afterEach(() => harness.close());
+
+  test('get_git_context detects the story from the branch and can start it', async () => {
+    const text = await harness.call('get_git_context');
+    assert.match(text, new RegExp(`Branch\\*\\*: story-${story.id}-card-form \\(base: main\\)`));
+    assert.match(text, new RegExp(`Story\\*\\* \\(from branch name\\): #${story.id} - Card form \\[Backlog\\]`));
+    assert.match(text, /Commits\*\* \(on this branch\):\n- `[0-9a-f]+` Validate card numbers/);
+    assert.doesNotMatch(text, /Initial commit/);
+    assert.equal(story.status, 1);
+
+    assert.match(await harness.call('get_git_context', { start: true }), /Backlog → In Progress/);
+    assert.equal(story.status, 3);
+  });
+
+  test('link_commits attaches branch commits once', async () => {
+    const text = await harness.call('link_commits');
+    assert.match(text, new RegExp(`Commits Linked\\*\\* to #${story.id} - Card form: 2 linked`));
+    const [comment] = harness.mock.comments;
+    assert.match(comment.body, /^🔗 \*\*Commits\*\*:\n- `[0-9a-f]+` Validate card numbers .* \(Dev\)\n- `[0-9a-f]+` Add card form \(Dev\)$/);
+
+    assert.match(await harness.call('link_commits', { story_id: story.id }), /All 2 commit\(s\) are already linked/);
+    assert.equal(harness.mock.comments.length, 1);
+
+    const error = await harness.callError('link_commits', { shas: ['deadbeef'] });
+    assert.match(error.message, /Unknown commit\(s\) in .*: deadbeef/);
+  });
+
+  test('update_story_status adds the branch commits when finishing a story', async () => {
+    await harness.call('update_story_status', { story_id: story.id, status: 3 });
+    const text = await harness.call('update_story_status', { story_id: story.id, status: 'Done', notes: 'Shipped', include_commits: true });
+
+    assert.match(text, /Commits\*\* \(saved as comment\):\n- `[0-9a-f]+` Validate card numbers/);
+    const comment = harness.mock.comments[harness.mock.comments.length - 1];
+    assert.match(comment.body, /^\*\*In Progress → Done\*\*: Shipped\n\n🔗 \*\*Commits\*\*:\n- /);
+    assert.equal(story.status, 5);
+  });
+});
@@ -0,0 +1,86 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SoftYPMServer } from '../src/server.js';
+import type { SoftYPMConfig } from '../src/softypm-client.js';
+import { implicitProfiles, ProfileConfig } from '../src/profiles.js';
+import { MockSoftYPM, MockSoftYPMOptions } from './mock-softypm-server.js';
+
+export interface HarnessOptions extends MockSoftYPMOptions {
+  config?: Partial<SoftYPMConfig>;
+  // Profiles to serve; by default the mock is the single implicit profile
+  profiles?: (mock: MockSoftYPM) => ProfileConfig;
+  // Extra environment for the server, e.g. DEFAULT_PROJECT_ID or SOFTYPM_WORKFLOW_FILE
+  env?: Record<string, string>;
+}
+
+export interface Harness {
+  mock: MockSoftYPM;
+  server: SoftYPMServer;
+  client: Client;
+  stateDir: string;
+  // Text of a tool call's response
+  call(name: string, args?: Record<string, unknown>): Promise<string>;
+  // The McpError a tool call fails with; fails the test if the call succeeds
+  callError(name: string, args?: Record<string, unknown>): Promise<McpError>;
+  close(): Promise<void>;
+}
+
+// Env the server reads at startup; cleared so the developer's own .env never leaks into a test
+const SERVER_ENV = ['DEFAULT_PROJECT_ID', 'SOFTYPM_WORKFLOW_FILE', 'SOFTYPM_TIMEOUT_MS', 'SOFTYPM_MAX_RETRIES', 'SOFTYPM_PROFILE', 'SOFTYPM_PROFILES_FILE', 'SOFTYPM_POLICY_FILE', 'SOFTYPM_READ_ONLY', 'SOFTYPM_DRY_RUN'];
+
+/**
+ * Start a mock SoftyPM API and a SoftYPMServer wired to it, connected to an MCP client in-process.
+ * Each harness gets its own state directory so saved context, timers and the offline queue don't leak between tests.
+ */
+export async function startHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const mock = new MockSoftYPM(options);
+  const baseURL = await mock.start();
+
+  const stateDir = mkdtempSync(join(tmpdir(), 'softypm-test-'));
+  SERVER_ENV.forEach(name => delete process.env[name]);
+  Object.assign(process.env, {
+    SOFTYPM_STATE_DIR: stateDir,
+    SOFTYPM_WORKSPACE: stateDir,
+    ...options.env,
+  });
+
+  const server = new SoftYPMServer(options.profiles
+    ? { profiles: options.profiles(mock), client: { retry: { retries: 0 }, ...options.config } }
+    : { profiles: implicitProfiles(), client: { baseURL, apiToken: mock.token, retry: { retries: 0 }, ...options.config } });
+  const client = new Client({ name: 'softypm-test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    return (result.content as { type: string; text: string }[]).map(item => item.text).join('\n');
+  };
+
+  return {
+    mock,
+    server,
+    client,
+    stateDir,
+    call,
+    async callError(name, args = {}) {
+      try {
+        await call(name, args);
+      } catch (error) {
+        if (error instanceof McpError) {
+          return error;
+        }
+        throw error;
+      }
+      throw new Error(`Expected ${name} to fail`);
+    },
+    async close() {
+      await client.close();
+      await mock.stop();
+      rmSync(stateDir, { recursive: true, force: true });
+    },
+  };
+}
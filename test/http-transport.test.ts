@@ -0,0 +1,213 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { request, IncomingMessage } from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SoftYPMHttpServer } from '../src/http-transport.js';
+import { MockSoftYPM } from './mock-softypm-server.js';
+
+interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// Minimal SSE client: the SDK's SSE client transport can't send an Authorization header
+class SseConnection {
+  private buffer = '';
+  private events: SseEvent[] = [];
+  private waiters: ((event: SseEvent) => void)[] = [];
+
+  constructor(private response: IncomingMessage) {
+    response.setEncoding('utf8');
+    response.on('data', chunk => {
+      this.buffer += chunk;
+      let end: number;
+      while ((end = this.buffer.indexOf('\n\n')) >= 0) {
+        const block = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        const event = {
+          event: block.match(/^event: (.*)$/m)?.[1] || 'message',
+          data: block.match(/^data: (.*)$/m)?.[1] || '',
+        };
+        const waiter = this.waiters.shift();
+        waiter ? waiter(event) : this.events.push(event);
+      }
+    });
+  }
+
+  next(): Promise<SseEvent> {
+    const event = this.events.shift();
+    return event ? Promise.resolve(event) : new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  close(): void {
+    this.response.destroy();
+  }
+}
+
+let baseURL: string;
+const mock = new MockSoftYPM({ token: 'softypm-api-token' });
+let server: SoftYPMHttpServer;
+let stateDir: string;
+
+function send(method: string, path: string, token?: string, body?: unknown): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const req = request(`${baseURL}${path}`, {
+      method,
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+    }, resolve);
+    req.on('error', reject);
+    req.end(body ? JSON.stringify(body) : undefined);
+  });
+}
+
+async function readBody(response: IncomingMessage): Promise<any> {
+  let raw = '';
+  for await (const chunk of response) {
+    raw += chunk;
+  }
+  return raw ? JSON.parse(raw) : null;
+}
+
+async function openSession(token: string): Promise<{ sse: SseConnection; endpoint: string }> {
+  const response = await send('GET', '/sse', token);
+  assert.equal(response.statusCode, 200);
+  const sse = new SseConnection(response);
+  const { event, data } = await sse.next();
+  assert.equal(event, 'endpoint');
+  return { sse, endpoint: data };
+}
+
+// Send a JSON-RPC request over the session and wait for its response on the stream
+async function rpc(session: { sse: SseConnection; endpoint: string }, token: string, id: number, method: string, params: unknown) {
+  const response = await send('POST', session.endpoint, token, { jsonrpc: '2.0', id, method, params });
+  assert.equal(response.statusCode, 202);
+  response.resume();
+  return JSON.parse((await session.sse.next()).data);
+}
+
+async function initialize(session: { sse: SseConnection; endpoint: string }, token: string) {
+  await rpc(session, token, 1, 'initialize', {
+    protocolVersion: '2024-11-05',
+    capabilities: {},
+    clientInfo: { name: 'http-test', version: '1.0.0' },
+  });
+}
+
+before(async () => {
+  await mock.start();
+  stateDir = mkdtempSync(join(tmpdir(), 'softypm-http-'));
+  Object.assign(process.env, { SOFTYPM_STATE_DIR: stateDir, SOFTYPM_WORKSPACE: stateDir, SOFTYPM_API_TOKEN: mock.token });
+  delete process.env.DEFAULT_PROJECT_ID;
+});
+
+after(async () => {
+  await mock.stop();
+  rmSync(stateDir, { recursive: true, force: true });
+});
+
+describe('health endpoint', () => {
+  before(async () => {
+    server = new SoftYPMHttpServer({ port: 0, baseURL: mock.baseURL });
+    const address = await server.listen();
+    baseURL = `http://127.0.0.1:${address.port}`;
+  });
+
+  after(() => server.close());
+
+  test('reports SoftyPM reachability', async () => {
+    mock.healthy = true;
+    const ok = await send('GET', '/health');
+    assert.equal(ok.statusCode, 200);
+    assert.deepEqual(await readBody(ok), { status: 'ok', softypm: true, sessions: 0 });
+
+    mock.healthy = false;
+    const degraded = await send('GET', '/health');
+    assert.equal(degraded.statusCode, 503);
+    assert.equal((await readBody(degraded)).status, 'degraded');
+    mock.healthy = true;
+  });
+});
+
+describe('bearer token passthrough', () => {
+  before(async () => {
+    server = new SoftYPMHttpServer({ port: 0, baseURL: mock.baseURL });
+    const address = await server.listen();
+    baseURL = `http://127.0.0.1:${address.port}`;
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    mock.requests = [];
+  });
+
+  test('rejects connections without a token', async () => {
+    const response = await send('GET', '/sse');
+    assert.equal(response.statusCode, 401);
+    response.resume();
+  });
+
+  test('uses the bearer token as the SoftyPM API token', async () => {
+    mock.addProject({ id: 7, name: 'Shared' });
+    const session = await openSession(mock.token);
+    await initialize(session, mock.token);
+
+    const result = await rpc(session, mock.token, 2, 'tools/call', { name: 'list_projects', arguments: {} });
+    assert.match(result.result.content[0].text, /Shared/);
+    assert.equal(mock.requestsTo('GET', '/projects')[0].headers.authorization, `Bearer ${mock.token}`);
+    session.sse.close();
+  });
+
+  test('keeps project context per connection', async () => {
+    mock.addProject({ id: 8, name: 'Other' });
+    const first = await openSession(mock.token);
+    await initialize(first, mock.token);
+    await rpc(first, mock.token, 2, 'tools/call', { name: 'set_project_context', arguments: { project_id: 7 } });
+
+    const second = await openSession('someone-else');
+    await initialize(second, 'someone-else');
+    const info = await rpc(second, 'someone-else', 2, 'tools/call', { name: 'get_project_info', arguments: {} });
+    assert.match(JSON.stringify(info), /No project context set/);
+
+    first.sse.close();
+    second.sse.close();
+  });
+
+  test('refuses messages for another user\'s session', async () => {
+    const session = await openSession(mock.token);
+    const response = await send('POST', session.endpoint, 'intruder', { jsonrpc: '2.0', id: 1, method: 'ping' });
+    assert.equal(response.statusCode, 403);
+    response.resume();
+    session.sse.close();
+  });
+});
+
+describe('tokens file', () => {
+  before(async () => {
+    const tokensFile = join(stateDir, 'tokens.json');
+    writeFileSync(tokensFile, JSON.stringify({ 'team-access-token': { api_token: mock.token, name: 'alex' } }));
+    server = new SoftYPMHttpServer({ port: 0, baseURL: mock.baseURL, tokensFile });
+    const address = await server.listen();
+    baseURL = `http://127.0.0.1:${address.port}`;
+  });
+
+  after(() => server.close());
+
+  test('only accepts listed access tokens and maps them to SoftyPM tokens', async () => {
+    const rejected = await send('GET', '/sse', mock.token);
+    assert.equal(rejected.statusCode, 401);
+    rejected.resume();
+
+    const session = await openSession('team-access-token');
+    await initialize(session, 'team-access-token');
+    mock.requests = [];
+    await rpc(session, 'team-access-token', 2, 'tools/call', { name: 'list_projects', arguments: {} });
+    assert.equal(mock.requestsTo('GET', '/projects')[0].headers.authorization, `Bearer ${mock.token}`);
+    session.sse.close();
+  });
+});
@@ -0,0 +1,335 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import type { Epic, Project, Sprint, Story, StoryComment, TimeEntry } from '../src/softypm-client.js';
+import type { WorkflowDefinition } from '../src/workflow.js';
+
+/**
+ * How successful responses are wrapped. The real API isn't consistent across endpoints, so the client
+ * accepts several shapes:
+ *  - named: { success: true, story: {...} }
+ *  - data:  { success: true, data: {...} }
+ *  - bare:  the resource itself, without a success flag (list endpoints return a plain array)
+ */
+export type ResponseShape = 'named' | 'data' | 'bare';
+
+export interface InjectedFailure {
+  method?: string;
+  // Matched against the request path, without the query string
+  path: string | RegExp;
+  // Defaults to 500
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Drop the connection instead of responding
+  disconnect?: boolean;
+  // How many matching requests fail before the endpoint recovers (default: every one)
+  times?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: any;
+  headers: IncomingMessage['headers'];
+}
+
+export interface MockSoftYPMOptions {
+  token?: string;
+  shape?: ResponseShape;
+}
+
+type Handler = (match: RegExpMatchArray, body: any) => { status?: number; key?: string; payload: unknown };
+
+/**
+ * In-process fake of the SoftyPM endpoints the client uses, backed by plain arrays that tests can seed
+ * and inspect. Failures can be injected per endpoint to exercise retries, offline mode and error mapping.
+ */
+export class MockSoftYPM {
+  readonly token: string;
+  shape: ResponseShape;
+  healthy = true;
+
+  projects: Project[] = [];
+  epics: Epic[] = [];
+  sprints: Sprint[] = [];
+  stories: Story[] = [];
+  comments: StoryComment[] = [];
+  timeEntries: TimeEntry[] = [];
+  workflows = new Map<number, WorkflowDefinition>();
+  statusChanges: { story_id: number; status: number; created_at?: string }[] = [];
+  requests: RecordedRequest[] = [];
+
+  private failures: InjectedFailure[] = [];
+  private nextId = 1000;
+  private server: Server | null = null;
+  private routes: [string, RegExp, Handler][];
+
+  constructor(options: MockSoftYPMOptions = {}) {
+    this.token = options.token ?? 'test-token';
+    this.shape = options.shape ?? 'named';
+
+    this.routes = [
+      ['GET', /^\/claude-code\/health$/, () => ({ payload: { success: this.healthy } })],
+      ['GET', /^\/projects$/, () => ({ key: 'projects', payload: this.projects })],
+      ['GET', /^\/projects\/(\d+)$/, match => ({ key: 'project', payload: this.findProject(Number(match[1])) })],
+      ['GET', /^\/claude-code\/projects\/(\d+)\/structure$/, match => this.structure(Number(match[1]))],
+      ['GET', /^\/claude-code\/projects\/(\d+)\/workflow$/, match => ({ key: 'workflow', payload: this.workflows.get(Number(match[1])) || null })],
+      ['POST', /^\/epics$/, (_, body) => ({ status: 201, key: 'epic', payload: this.insert(this.epics, body) })],
+      ['GET', /^\/epics\/(\d+)$/, match => ({ key: 'epic', payload: this.findEpic(Number(match[1])) })],
+      ['GET', /^\/projects\/(\d+)\/sprints$/, match => ({ key: 'sprints', payload: this.sprints.filter(s => s.project_id === Number(match[1])) })],
+      ['POST', /^\/sprints$/, (_, body) => {
+        this.findProject(body.project_id);
+        return { status: 201, key: 'sprint', payload: this.insert(this.sprints, { state: 'planned', ...body }) };
+      }],
+      ['GET', /^\/sprints\/(\d+)$/, match => ({ key: 'sprint', payload: this.findSprint(Number(match[1])) })],
+      ['POST', /^\/sprints\/(\d+)\/stories$/, (match, body) => {
+        const sprint = this.findSprint(Number(match[1]));
+        body.story_ids.forEach((id: number) => (this.findStory(id).sprint_id = sprint.id));
+        return { payload: { success: true } };
+      }],
+      ['POST', /^\/stories$/, (_, body) => ({ status: 201, key: 'story', payload: this.createStory(body) })],
+      ['GET', /^\/stories\/(\d+)$/, match => ({ key: 'story', payload: this.findStory(Number(match[1])) })],
+      ['PATCH', /^\/stories\/(\d+)$/, (match, body) => ({ key: 'story', payload: Object.assign(this.findStory(Number(match[1])), body) })],
+      ['DELETE', /^\/stories\/(\d+)$/, match => {
+        this.findStory(Number(match[1]));
+        this.stories = this.stories.filter(story => story.id !== Number(match[1]));
+        return { payload: { success: true } };
+      }],
+      ['POST', /^\/stories\/(\d+)\/status$/, (match, body) => this.updateStatus(Number(match[1]), body.status)],
+      ['POST', /^\/stories\/(\d+)\/archive$/, match => {
+        this.findStory(Number(match[1])).archived_at = new Date().toISOString();
+        return { payload: { success: true } };
+      }],
+      ['POST', /^\/stories\/(\d+)\/dependencies$/, (match, body) => {
+        const story = this.findStory(Number(match[1]));
+        const blocker = this.findStory(body.blocked_by_id);
+        story.blocked_by = Array.from(new Set([...(story.blocked_by || []), blocker.id]));
+        blocker.blocks = Array.from(new Set([...(blocker.blocks || []), story.id]));
+        return { status: 201, payload: { success: true } };
+      }],
+      ['DELETE', /^\/stories\/(\d+)\/dependencies\/(\d+)$/, match => {
+        const story = this.findStory(Number(match[1]));
+        const blocker = this.findStory(Number(match[2]));
+        story.blocked_by = (story.blocked_by || []).filter(id => id !== blocker.id);
+        blocker.blocks = (blocker.blocks || []).filter(id => id !== story.id);
+        return { payload: { success: true } };
+      }],
+      ['GET', /^\/stories\/(\d+)\/comments$/, match => ({ key: 'comments', payload: this.comments.filter(c => c.story_id === Number(match[1])) })],
+      ['POST', /^\/stories\/(\d+)\/comments$/, (match, body) => ({
+        status: 201,
+        key: 'comment',
+        payload: this.insert(this.comments, { story_id: this.findStory(Number(match[1])).id, body: body.body }),
+      })],
+      ['GET', /^\/stories\/(\d+)\/activity$/, match => ({
+        key: 'activity',
+        payload: this.statusChanges
+          .filter(change => change.story_id === Number(match[1]))
+          .map((change, index) => ({ id: index + 1, type: 'status_change', to_status: change.status, created_at: change.created_at })),
+      })],
+      ['GET', /^\/stories\/(\d+)\/time-entries$/, match => ({ key: 'time_entries', payload: this.timeEntries.filter(e => e.story_id === Number(match[1])) })],
+      ['POST', /^\/stories\/(\d+)\/time-entries$/, (match, body) => ({
+        status: 201,
+        key: 'time_entry',
+        payload: this.insert(this.timeEntries, { ...body, story_id: this.findStory(Number(match[1])).id }),
+      })],
+    ];
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    return this.baseURL;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  get baseURL(): string {
+    const { port } = this.server!.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  fail(failure: InjectedFailure): void {
+    this.failures.push({ ...failure });
+  }
+
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  addProject(project: Partial<Project> & { name: string }): Project {
+    return this.insert(this.projects, project);
+  }
+
+  addEpic(epic: Partial<Epic> & { name: string; project_id: number }): Epic {
+    return this.insert(this.epics, epic);
+  }
+
+  addSprint(sprint: Partial<Sprint> & { name: string; project_id: number }): Sprint {
+    return this.insert(this.sprints, sprint);
+  }
+
+  addStory(story: Partial<Story> & { name: string; project_id: number }): Story {
+    return this.insert(this.stories, { status: 1, ...story });
+  }
+
+  requestsTo(method: string, path: string | RegExp): RecordedRequest[] {
+    return this.requests.filter(request => request.method === method && matchesPath(path, request.path));
+  }
+
+  private insert<T extends { id: number }>(list: T[], data: Partial<T>): T {
+    const now = new Date().toISOString();
+    const record = { created_at: now, updated_at: now, ...data, id: data.id ?? this.nextId++ } as unknown as T;
+    list.push(record);
+    return record;
+  }
+
+  private findProject(id: number): Project {
+    return this.projects.find(project => project.id === id) || notFound();
+  }
+
+  private findEpic(id: number): Epic {
+    return this.epics.find(epic => epic.id === id) || notFound();
+  }
+
+  private findSprint(id: number): Sprint {
+    return this.sprints.find(sprint => sprint.id === id) || notFound();
+  }
+
+  private findStory(id: number): Story {
+    return this.stories.find(story => story.id === id) || notFound();
+  }
+
+  private createStory(body: any): Story {
+    this.findProject(body.project_id);
+    if (!body.name?.trim()) {
+      throw new MockHttpError(422, { success: false, message: 'The given data was invalid.', errors: { name: ['The name field is required.'] } });
+    }
+    return this.insert(this.stories, { status: 1, ...body });
+  }
+
+  private updateStatus(storyId: number, status: number) {
+    const story = this.findStory(storyId);
+    story.status = status;
+    story.updated_at = new Date().toISOString();
+    this.statusChanges.push({ story_id: storyId, status, created_at: story.updated_at });
+    return { payload: { success: true } };
+  }
+
+  // The structure endpoint is always wrapped in data.project, whatever the configured shape
+  private structure(projectId: number) {
+    const project = this.findProject(projectId);
+    const stories = this.stories.filter(story => story.project_id === projectId);
+    const epics = this.epics
+      .filter(epic => epic.project_id === projectId)
+      .map(epic => ({ ...epic, stories: stories.filter(story => story.epic_id === epic.id) }));
+
+    return {
+      payload: {
+        success: true,
+        data: {
+          project: { ...project, epics, stories: stories.filter(story => !story.epic_id) },
+        },
+      },
+    };
+  }
+
+  private wrap(key: string | undefined, payload: unknown): unknown {
+    // Handlers that build the whole body themselves (status, health, structure) don't set a key
+    if (!key) {
+      return payload;
+    }
+
+    switch (this.shape) {
+      case 'named':
+        return { success: true, [key]: payload };
+      case 'data':
+        return { success: true, data: payload };
+      case 'bare':
+        return payload;
+    }
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const path = (req.url || '/').split('?')[0];
+      const method = req.method || 'GET';
+      const body = raw ? JSON.parse(raw) : undefined;
+      this.requests.push({ method, path, body, headers: req.headers });
+
+      const failure = this.takeFailure(method, path);
+      if (failure?.disconnect) {
+        req.socket.destroy();
+        return;
+      }
+      if (failure) {
+        return send(res, failure.status ?? 500, failure.body ?? { success: false, message: 'Injected failure' }, failure.headers);
+      }
+
+      if (req.headers.authorization !== `Bearer ${this.token}`) {
+        return send(res, 401, { success: false, message: 'Unauthenticated.' });
+      }
+
+      for (const [routeMethod, pattern, handler] of this.routes) {
+        const match = method === routeMethod ? path.match(pattern) : null;
+        if (!match) {
+          continue;
+        }
+
+        try {
+          const { status = 200, key, payload } = handler(match, body || {});
+          return send(res, status, this.wrap(key, payload));
+        } catch (error) {
+          if (error instanceof MockHttpError) {
+            return send(res, error.status, error.body);
+          }
+          return send(res, 500, { success: false, message: String(error) });
+        }
+      }
+
+      send(res, 404, { success: false, message: `No mock route for ${method} ${path}` });
+    });
+  }
+
+  private takeFailure(method: string, path: string): InjectedFailure | undefined {
+    const index = this.failures.findIndex(failure =>
+      (!failure.method || failure.method.toUpperCase() === method) && matchesPath(failure.path, path)
+    );
+    if (index < 0) {
+      return undefined;
+    }
+
+    const failure = this.failures[index];
+    if (failure.times !== undefined && --failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure;
+  }
+}
+
+class MockHttpError extends Error {
+  constructor(readonly status: number, readonly body: unknown) {
+    super(`HTTP ${status}`);
+  }
+}
+
+function notFound(): never {
+  throw new MockHttpError(404, { success: false, message: 'Not found' });
+}
+
+function matchesPath(pattern: string | RegExp, path: string): boolean {
+  return typeof pattern === 'string' ? pattern === path : pattern.test(path);
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
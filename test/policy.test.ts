@@ -0,0 +1,140 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadPolicy } from '../src/policy.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('policy', () => {
+  let harness: Harness | undefined;
+  let policyDir: string | undefined;
+
+  afterEach(async () => {
+    await harness?.close();
+    if (policyDir) {
+      rmSync(policyDir, { recursive: true, force: true });
+    }
+    harness = policyDir = undefined;
+  });
+
+  const writePolicy = (policy: unknown) => {
+    policyDir = mkdtempSync(join(tmpdir(), 'softypm-policy-'));
+    const path = join(policyDir, 'policy.json');
+    writeFileSync(path, JSON.stringify(policy));
+    return path;
+  };
+
+  const toolNames = async (h: Harness) => (await h.client.listTools()).tools.map(tool => tool.name);
+
+  test('read-only mode hides and refuses changes but allows browsing', async () => {
+    harness = await startHarness({ env: { SOFTYPM_READ_ONLY: 'true' } });
+    harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    const story = harness.mock.addStory({ name: 'Card form', project_id: 42, estimate: 2 });
+
+    const tools = await toolNames(harness);
+    assert.ok(tools.includes('get_story') && tools.includes('plan_sprint'));
+    assert.ok(!tools.includes('create_story') && !tools.includes('update_story_status'));
+
+    const text = await harness.call('get_story', { story_id: story.id });
+    assert.match(text, /Read-only\*\*: the policy doesn't allow changes/);
+
+    const disabled = await harness.callError('update_story_status', { story_id: story.id, status: 3 });
+    assert.match(disabled.message, /update_story_status is disabled because the server is read-only/);
+    const commit = await harness.callError('plan_sprint', { project_id: 42, capacity_hours: 10, commit: true });
+    assert.match(commit.message, /can't make changes\. Leave out commit to preview instead/);
+    assert.equal(story.status, 1);
+  });
+
+  test('dry-run mode describes changes without sending them', async () => {
+    harness = await startHarness({ env: { SOFTYPM_DRY_RUN: '1' } });
+    harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    harness.mock.addStory({ name: 'Card form', project_id: 42, estimate: 2 });
+
+    const text = await harness.call('create_story', { name: 'Refunds', estimate: 3, project_id: 42 });
+    assert.match(text, /Dry run\*\*: `create_story` was not sent to SoftyPM\.\n\nIt would have run with:\n- name: "Refunds"\n- estimate: 3\n- project_id: 42\n\n\*\*Project\*\*: #42/);
+    assert.equal(harness.mock.requestsTo('POST', '/stories').length, 0);
+
+    // Tools with their own preview run it instead
+    assert.match(await harness.call('plan_sprint', { project_id: 42, capacity_hours: 10, commit: true }), /Card form/);
+    assert.equal(harness.mock.sprints.length, 0);
+  });
+
+  test('tool lists and allowed projects come from the policy file', async () => {
+    const path = writePolicy({ denied_tools: ['archive_story'], allowed_project_ids: [42] });
+    harness = await startHarness({ env: { SOFTYPM_POLICY_FILE: path } });
+    harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    harness.mock.addProject({ id: 7, name: 'Payroll' });
+
+    assert.ok(!(await toolNames(harness)).includes('archive_story'));
+    assert.match((await harness.callError('archive_story', { story_id: 1 })).message, /disabled because it is in denied_tools/);
+
+    const error = await harness.callError('set_project_context', { project_id: 7 });
+    assert.match(error.message, /Project 7 is not allowed by the policy\. Allowed projects: 42/);
+    assert.match(await harness.call('set_project_context', { project_id: 42 }), /Checkout Revamp/);
+  });
+
+  test('allowed projects also cover stories, epics and resources from other projects', async () => {
+    const path = writePolicy({ allowed_project_ids: [42] });
+    harness = await startHarness({ env: { SOFTYPM_POLICY_FILE: path } });
+    harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    harness.mock.addProject({ id: 7, name: 'Payroll' });
+    const allowed = harness.mock.addStory({ name: 'Card form', project_id: 42 });
+    const outside = harness.mock.addStory({ name: 'Payslips', project_id: 7 });
+    const outsideEpic = harness.mock.addEpic({ name: 'Taxes', project_id: 7 });
+
+    const moved = await harness.callError('update_story_status', { story_id: outside.id, status: 3 });
+    assert.match(moved.message, new RegExp(`Story ${outside.id} belongs to project 7, which is not allowed by the policy`));
+    const commented = await harness.callError('add_story_comment', { story_id: outside.id, comment: 'hi' });
+    assert.match(commented.message, /belongs to project 7/);
+    const blocked = await harness.callError('add_dependency', { story_id: allowed.id, blocked_by_story_id: outside.id });
+    assert.match(blocked.message, /belongs to project 7/);
+    const rehomed = await harness.callError('move_story_to_epic', { story_id: allowed.id, epic_id: outsideEpic.id });
+    assert.match(rehomed.message, new RegExp(`Epic ${outsideEpic.id} belongs to project 7`));
+    assert.equal(outside.status, 1);
+    assert.equal(harness.mock.comments.length, 0);
+
+    await assert.rejects(harness.client.readResource({ uri: 'softypm://projects/7/stories' }), /Project 7 is not allowed/);
+    await assert.rejects(harness.client.readResource({ uri: `softypm://stories/${outside.id}` }), /belongs to project 7/);
+    const resource = await harness.client.readResource({ uri: `softypm://stories/${allowed.id}` });
+    assert.match(String(resource.contents[0].text), /Card form/);
+
+    await assert.rejects(harness.client.getPrompt({ name: 'start_session', arguments: { project_id: '7' } }), /Project 7 is not allowed/);
+    await assert.rejects(harness.client.getPrompt({ name: 'daily_standup', arguments: { project_id: '7' } }), /Project 7 is not allowed/);
+    await assert.rejects(
+      harness.client.getPrompt({ name: 'break_down_story', arguments: { story_id: String(outside.id) } }),
+      /belongs to project 7/
+    );
+    const prompt = await harness.client.getPrompt({ name: 'start_session', arguments: { project_id: '42' } });
+    assert.match(JSON.stringify(prompt.messages), /Checkout Revamp/);
+
+    assert.match(await harness.call('update_story_status', { story_id: allowed.id, status: 3 }), /Backlog → In Progress/);
+  });
+
+  test('starting a story from the git branch follows the update_story_status policy', async () => {
+    const path = writePolicy({ denied_tools: ['update_story_status'] });
+    harness = await startHarness({ env: { SOFTYPM_POLICY_FILE: path } });
+    harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    const story = harness.mock.addStory({ name: 'Card form', project_id: 42 });
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', ...args], { cwd: harness!.stateDir });
+    git('init', '-q', '-b', 'main');
+    git('commit', '-q', '--allow-empty', '-m', 'Initial commit');
+    git('checkout', '-q', '-b', `story-${story.id}-card-form`);
+
+    assert.match(await harness.call('get_git_context'), /Card form \[Backlog\]/);
+    const error = await harness.callError('get_git_context', { start: true });
+    assert.match(error.message, /update_story_status is disabled because it is in denied_tools/);
+    assert.equal(story.status, 1);
+  });
+
+  test('rejects an invalid policy file', () => {
+    process.env.SOFTYPM_POLICY_FILE = writePolicy({ read_only: 'yes', allowed_tool: [] });
+    try {
+      assert.throws(() => loadPolicy(), /Invalid policy file .*read_only: Expected boolean.*Unrecognized key/);
+    } finally {
+      delete process.env.SOFTYPM_POLICY_FILE;
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ActiveProfileStore, loadProfiles, ProfileConfig } from '../src/profiles.js';
+import { Harness, startHarness } from './harness.js';
+import { MockSoftYPM } from './mock-softypm-server.js';
+
+// A second SoftyPM instance alongside the harness's own mock
+const onPrem = new MockSoftYPM({ token: 'on-prem-token' });
+let harness: Harness;
+
+const profilesFor = (saas: MockSoftYPM): ProfileConfig => ({
+  configured: true,
+  path: 'profiles.json',
+  default_profile: 'saas',
+  profiles: {
+    saas: { base_url: saas.baseURL, token: saas.token, default_project_id: 1 },
+    onprem: { base_url: onPrem.baseURL, token_env: 'ONPREM_TOKEN', default_project_id: 2, description: 'Self-hosted' },
+  },
+});
+
+before(() => onPrem.start());
+after(() => onPrem.stop());
+
+describe('switch_profile', () => {
+  beforeEach(async () => {
+    process.env.ONPREM_TOKEN = onPrem.token;
+    harness = await startHarness({ profiles: profilesFor });
+    harness.mock.addProject({ id: 1, name: 'SaaS Project' });
+    onPrem.addProject({ id: 2, name: 'On-prem Project' });
+  });
+
+  afterEach(() => harness.close());
+
+  test('every response names the active profile', async () => {
+    const text = await harness.call('get_project_info');
+    assert.match(text, /SaaS Project/);
+    assert.match(text, /Profile\*\*: saas \(127\.0\.0\.1:\d+\)/);
+  });
+
+  test('lists profiles without an argument', async () => {
+    const text = await harness.call('switch_profile');
+    assert.match(text, /\*\*saas\*\*: .* ← active/);
+    assert.match(text, /\*\*onprem\*\*: .* - Self-hosted/);
+  });
+
+  test('routes writes to the selected account and restores its project', async () => {
+    const switched = await harness.call('switch_profile', { profile: 'onprem' });
+    assert.match(switched, /Switched to profile onprem/);
+    assert.match(switched, /Project #2 \(from profile default\)/);
+
+    const created = await harness.call('create_story', { name: 'Self-hosted only', estimate: 2 });
+    assert.match(created, /Profile\*\*: onprem/);
+    assert.equal(onPrem.stories.at(-1)?.name, 'Self-hosted only');
+    assert.equal(harness.mock.stories.length, 0);
+
+    await harness.call('switch_profile', { profile: 'saas' });
+    await harness.call('create_story', { name: 'Back on SaaS', estimate: 1 });
+    assert.equal(harness.mock.stories[0].project_id, 1);
+  });
+
+  test('keeps the current profile when the new one has no token', async () => {
+    delete process.env.ONPREM_TOKEN;
+
+    const error = await harness.callError('switch_profile', { profile: 'onprem' });
+    assert.equal(error.code, ErrorCode.InvalidRequest);
+    assert.match(error.message, /ONPREM_TOKEN, which is not set/);
+    assert.match(await harness.call('get_project_info'), /Profile\*\*: saas/);
+  });
+
+  test('rejects unknown profiles', async () => {
+    const error = await harness.callError('switch_profile', { profile: 'staging' });
+    assert.equal(error.code, ErrorCode.InvalidParams);
+  });
+});
+
+describe('profiles file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'softypm-profiles-'));
+    process.env.SOFTYPM_STATE_DIR = dir;
+    process.env.SOFTYPM_PROFILES_FILE = join(dir, 'profiles.json');
+    delete process.env.SOFTYPM_PROFILE;
+  });
+
+  afterEach(() => {
+    delete process.env.SOFTYPM_PROFILES_FILE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeProfiles = (profiles: unknown) => writeFileSync(process.env.SOFTYPM_PROFILES_FILE!, JSON.stringify(profiles));
+
+  test('requires exactly one token source per profile', () => {
+    writeProfiles({ profiles: { a: { base_url: 'https://a.example.com/api', token: 'x', token_env: 'Y' } } });
+    assert.throws(() => loadProfiles(), /profiles\.a: Set exactly one of token, token_env or token_file/);
+  });
+
+  test('picks SOFTYPM_PROFILE, then the saved switch, then default_profile', () => {
+    writeProfiles({
+      default_profile: 'b',
+      profiles: {
+        a: { base_url: 'https://a.example.com/api', token: 'a' },
+        b: { base_url: 'https://b.example.com/api', token: 'b' },
+      },
+    });
+    const store = new ActiveProfileStore(loadProfiles(), dir);
+
+    assert.deepEqual(store.resolve(), { name: 'b', source: 'file' });
+    store.save('a');
+    assert.deepEqual(store.resolve(), { name: 'a', source: 'state' });
+    process.env.SOFTYPM_PROFILE = 'b';
+    assert.deepEqual(store.resolve(), { name: 'b', source: 'env' });
+    process.env.SOFTYPM_PROFILE = 'missing';
+    assert.throws(() => store.resolve(), /SOFTYPM_PROFILE "missing" is not defined/);
+    delete process.env.SOFTYPM_PROFILE;
+  });
+});
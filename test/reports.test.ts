@@ -0,0 +1,110 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Story, StoryActivity } from '../src/softypm-client.js';
+import { buildTimelines, burndown, cycleTime, renderReportTable, reportTable, velocity } from '../src/reports.js';
+import { DEFAULT_WORKFLOW, Workflow } from '../src/workflow.js';
+import { Harness, startHarness } from './harness.js';
+
+const workflow = new Workflow(DEFAULT_WORKFLOW);
+const range = { from: '2026-10-05', to: '2026-10-11' };
+const today = new Date('2026-10-20T12:00:00Z');
+
+function story(id: number, estimate: number, status: number, extra: Partial<Story> = {}): Story {
+  return { id, name: `Story ${id}`, estimate, status, project_id: 1, created_at: '2026-10-01T09:00:00Z', ...extra };
+}
+
+function change(to_status: number, created_at: string): StoryActivity {
+  return { id: 0, story_id: 0, type: 'status_change', to_status, created_at };
+}
+
+describe('reports', () => {
+  const stories = [
+    story(1, 4, 5, { updated_at: '2026-10-15T10:00:00Z' }),
+    story(2, 2, 5, { updated_at: '2026-10-08T10:00:00Z' }),
+    story(3, 3, 3),
+    story(4, 1, 1, { created_at: '2026-10-09T09:00:00Z' }),
+  ];
+  const history = new Map([
+    [1, [change(3, '2026-10-05T09:00:00Z'), change(5, '2026-10-07T09:00:00Z')]],
+    [3, [change(3, '2026-10-06T09:00:00Z')]],
+  ]);
+  const timelines = buildTimelines(stories, history, workflow);
+
+  test('dates stories from status history, falling back to updated_at', () => {
+    assert.deepEqual(timelines.map(t => [t.started_at, t.done_at]), [
+      ['2026-10-05T09:00:00Z', '2026-10-07T09:00:00Z'],
+      [null, '2026-10-08T10:00:00Z'],
+      ['2026-10-06T09:00:00Z', null],
+      [null, null],
+    ]);
+  });
+
+  test('burns down open hours, adding stories as they are created', () => {
+    const points = burndown(timelines, range, today);
+    assert.deepEqual(points.map(p => p.remaining_hours), [9, 9, 5, 3, 4, 4, 4]);
+    assert.equal(points[0].ideal_hours, 9);
+    assert.equal(points[6].ideal_hours, 0);
+  });
+
+  test('stops the burndown at today', () => {
+    const points = burndown(timelines, range, new Date('2026-10-07T12:00:00Z'));
+    assert.deepEqual(points.map(p => p.date), ['2026-10-05', '2026-10-06', '2026-10-07']);
+  });
+
+  test('sums finished hours per week starting on Monday', () => {
+    assert.deepEqual(velocity(timelines, { from: '2026-10-07', to: '2026-10-18' }), [
+      { week_start: '2026-10-05', stories: 2, hours: 6 },
+      { week_start: '2026-10-12', stories: 0, hours: 0 },
+    ]);
+  });
+
+  test('measures cycle time from first start to done', () => {
+    const summary = cycleTime(timelines, range);
+    assert.deepEqual(summary.entries.map(e => [e.story_id, e.days]), [[1, 2]]);
+    assert.equal(summary.average_days, 2);
+  });
+
+  test('renders tables, CSV and charts', () => {
+    const table = reportTable('velocity', { velocity: [{ week_start: '2026-10-05', stories: 2, hours: 6 }, { week_start: '2026-10-12', stories: 1, hours: 3 }] });
+    assert.match(renderReportTable(table, 'table'), /\| Week of \| Stories done \| Hours done \|\n\| --- \| --- \| --- \|\n\| 2026-10-05 \| 2 \| 6 \|/);
+    assert.match(renderReportTable(table, 'csv'), /Week of,Stories done,Hours done\n2026-10-05,2,6\n2026-10-12,1,3/);
+    assert.match(renderReportTable(table, 'chart'), /2026-10-05 \| #{40} 6\n2026-10-12 \| #{20} 3/);
+  });
+});
+
+describe('project_report tool', () => {
+  let harness: Harness;
+
+  afterEach(() => harness.close());
+
+  test('reports cycle time from recorded status history', async () => {
+    harness = await startHarness();
+    const project = harness.mock.addProject({ name: 'Reporting' });
+    const done = harness.mock.addStory({ name: 'Shipped, thing', project_id: project.id, estimate: 3, status: 5 });
+    harness.mock.statusChanges.push(
+      { story_id: done.id, status: 3, created_at: '2026-10-05T09:00:00Z' },
+      { story_id: done.id, status: 5, created_at: '2026-10-08T09:00:00Z' }
+    );
+    await harness.call('set_project_context', { project_id: project.id });
+
+    const csv = await harness.call('project_report', { report: 'cycle_time', output: 'csv', from: '2026-10-01', to: '2026-10-31' });
+    assert.match(csv, /Cycle Time/);
+    assert.match(csv, new RegExp(`#${done.id},"Shipped, thing",2026-10-05,2026-10-08,3`));
+
+    const error = await harness.callError('project_report', { report: 'velocity', from: '2026-10-31', to: '2026-10-01' });
+    assert.match(error.message, /starts \(2026-10-31\) after it ends/);
+  });
+
+  test('burndown only loads history for stories updated in the range', async () => {
+    harness = await startHarness();
+    const project = harness.mock.addProject({ name: 'Reporting' });
+    const old = harness.mock.addStory({ name: 'Long done', project_id: project.id, estimate: 2, status: 5, updated_at: '2026-09-01T09:00:00Z' });
+    const recent = harness.mock.addStory({ name: 'In flight', project_id: project.id, estimate: 4, status: 3, created_at: '2026-09-20T09:00:00Z', updated_at: '2026-10-06T09:00:00Z' });
+    await harness.call('set_project_context', { project_id: project.id });
+
+    const table = await harness.call('project_report', { report: 'burndown', from: '2026-10-05', to: '2026-10-07' });
+    assert.match(table, /\| 2026-10-05 \| 4 \|/);
+    assert.equal(harness.mock.requestsTo('GET', `/stories/${old.id}/activity`).length, 0);
+    assert.equal(harness.mock.requestsTo('GET', `/stories/${recent.id}/activity`).length, 1);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { Epic, Project, Story } from '../src/softypm-client.js';
+import { planSprint, rankBacklog, sprintDates } from '../src/sprint-planning.js';
+import { Harness, startHarness } from './harness.js';
+
+function story(id: number, estimate: number | undefined, extra: Partial<Story> = {}): Story {
+  return { id, name: `Story ${id}`, status: 1, project_id: 1, estimate, ...extra };
+}
+
+describe('sprint planning', () => {
+  const epics: Epic[] = [
+    { id: 10, name: 'Later', project_id: 1 },
+    { id: 20, name: 'Urgent', project_id: 1, priority: 1 },
+  ];
+
+  test('ranks by epic priority, then project order, then story position', () => {
+    const ranked = rankBacklog([
+      story(1, 2),
+      story(2, 2, { epic_id: 10 }),
+      story(3, 2, { epic_id: 20, position: 2 }),
+      story(4, 2, { epic_id: 20, position: 1 }),
+    ], epics);
+
+    assert.deepEqual(ranked.map(s => s.id), [4, 3, 2, 1]);
+  });
+
+  test('fills the capacity and reports what was left out', () => {
+    const plan = planSprint([
+      story(1, 3, { epic_id: 20 }),
+      story(2, 4, { epic_id: 20 }),
+      story(3, undefined, { epic_id: 10 }),
+      story(4, 1.5, { epic_id: 10 }),
+    ], epics, { capacityHours: 5 });
+
+    assert.deepEqual(plan.stories.map(s => s.id), [1, 4]);
+    assert.equal(plan.committed_hours, 4.5);
+    assert.equal(plan.remaining_hours, 0.5);
+    assert.deepEqual(plan.skipped.map(s => [s.story.id, s.reason]), [[2, 'over_capacity'], [3, 'not_estimated']]);
+    assert.equal(plan.backlog_hours_remaining, 4);
+  });
+
+  test('defaults new sprints to next Monday through Friday', () => {
+    // 2026-10-18 is a Sunday
+    assert.deepEqual(sprintDates(undefined, undefined, new Date(2026, 9, 18)), { starts_on: '2026-10-19', ends_on: '2026-10-23' });
+    assert.deepEqual(sprintDates(undefined, undefined, new Date(2026, 9, 19)), { starts_on: '2026-10-26', ends_on: '2026-10-30' });
+    assert.deepEqual(sprintDates('2026-11-02'), { starts_on: '2026-11-02', ends_on: '2026-11-06' });
+  });
+
+  test('ends a sprint that starts mid-week on that week\'s Friday', () => {
+    assert.deepEqual(sprintDates('2026-11-04'), { starts_on: '2026-11-04', ends_on: '2026-11-06' });
+    assert.deepEqual(sprintDates('2026-11-07'), { starts_on: '2026-11-07', ends_on: '2026-11-13' });
+  });
+});
+
+describe('sprint tools', () => {
+  let harness: Harness;
+  let project: Project;
+
+  beforeEach(async () => {
+    harness = await startHarness();
+    project = harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+    await harness.call('set_project_context', { project_id: project.id });
+  });
+
+  afterEach(() => harness.close());
+
+  test('plan_sprint proposes backlog stories without saving anything', async () => {
+    const epic = harness.mock.addEpic({ name: 'Payments', project_id: project.id, priority: 1 });
+    harness.mock.addStory({ name: 'Loose end', project_id: project.id, estimate: 2 });
+    harness.mock.addStory({ name: 'Card form', project_id: project.id, epic_id: epic.id, estimate: 3 });
+    harness.mock.addStory({ name: 'Already started', project_id: project.id, estimate: 1, status: 3 });
+
+    const text = await harness.call('plan_sprint', { capacity_hours: 4 });
+    assert.match(text, /3h of 4h capacity, 1h remaining/);
+    assert.match(text, /Card form/);
+    assert.match(text, /Loose end \(2h\) - doesn't fit/);
+    assert.doesNotMatch(text, /Already started/);
+    assert.equal(harness.mock.requestsTo('POST', '/sprints').length, 0);
+  });
+
+  test('plan_sprint with commit creates the sprint and assigns the stories', async () => {
+    const first = harness.mock.addStory({ name: 'First', project_id: project.id, estimate: 2 });
+    const second = harness.mock.addStory({ name: 'Second', project_id: project.id, estimate: 2 });
+
+    const output = JSON.parse(await harness.call('plan_sprint', {
+      capacity_hours: 8,
+      commit: true,
+      sprint_name: 'Sprint 12',
+      starts_on: '2026-10-19',
+      format: 'json',
+    }));
+
+    const [sprint] = harness.mock.sprints;
+    assert.equal(output.result.sprint.id, sprint.id);
+    assert.equal(sprint.ends_on, '2026-10-23');
+    assert.equal(sprint.capacity_hours, 8);
+    assert.equal(first.sprint_id, sprint.id);
+    assert.equal(second.sprint_id, sprint.id);
+
+    // Scheduled stories are no longer offered for the next sprint
+    assert.match(await harness.call('plan_sprint', { capacity_hours: 8 }), /No backlog story fits/);
+
+    const details = await harness.call('get_sprint', { sprint_id: sprint.id });
+    assert.match(details, /Committed\*\*: 4h of 8h capacity \(4h remaining\)/);
+    assert.match(await harness.call('list_sprints'), /Sprint 12 \[planned\] 2026-10-19 → 2026-10-23 - 4h committed of 8h/);
+  });
+
+  test('plan_sprint rejects an end date before the start', async () => {
+    harness.mock.addStory({ name: 'First', project_id: project.id, estimate: 2 });
+
+    const error = await harness.callError('plan_sprint', { capacity_hours: 8, commit: true, starts_on: '2026-10-19', ends_on: '2026-10-16' });
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, /ends_on \(2026-10-16\) is before the sprint starts on 2026-10-19/);
+    assert.equal(harness.mock.sprints.length, 0);
+  });
+});
@@ -0,0 +1,301 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { Project } from '../src/softypm-client.js';
+import { Harness, startHarness } from './harness.js';
+
+let harness: Harness;
+let project: Project;
+
+async function setUp(options: Parameters<typeof startHarness>[0] = {}) {
+  harness = await startHarness(options);
+  project = harness.mock.addProject({ id: 42, name: 'Checkout Revamp' });
+}
+
+afterEach(() => harness.close());
+
+describe('project context', () => {
+  beforeEach(() => setUp());
+
+  test('set_project_context selects the project for later calls', async () => {
+    const text = await harness.call('set_project_context', { project_id: project.id });
+    assert.match(text, /Checkout Revamp/);
+
+    await harness.call('create_story', { name: 'Add coupon field', estimate: 2 });
+    assert.equal(harness.mock.stories[0].project_id, project.id);
+  });
+
+  test('create_story without a project asks for one', async () => {
+    const error = await harness.callError('create_story', { name: 'Orphan' });
+    assert.equal(error.code, ErrorCode.InvalidRequest);
+    assert.match(error.message, /No project context set/);
+  });
+});
+
+describe('stories', () => {
+  beforeEach(async () => {
+    await setUp();
+    await harness.call('set_project_context', { project_id: project.id });
+  });
+
+  test('create_story starts in the backlog', async () => {
+    const text = await harness.call('create_story', { name: 'Show order total', estimate: 3 });
+    assert.match(text, /Story Created/);
+    assert.equal(harness.mock.stories[0].status, 1);
+  });
+
+  test('create_story rejects oversized stories before calling the API', async () => {
+    const text = await harness.call('create_story', { name: 'Rewrite payments', estimate: 7 });
+    assert.match(text, /too large|break/i);
+    assert.equal(harness.mock.requestsTo('POST', '/stories').length, 0);
+  });
+
+  test('create_stories lists every draft over the size limit', async () => {
+    const text = await harness.call('create_stories', {
+      stories: [{ name: 'Card form', estimate: 3 }, { name: 'Refunds', estimate: 7 }, { name: 'Rewrite payments', estimate: 12 }],
+    });
+    assert.match(text, /No Stories Created/);
+    assert.match(text, /2\. "Refunds": estimated at 7h, stories must be 6h or less/);
+    assert.match(text, /3\. "Rewrite payments": estimated at 12h, stories must be 6h or less/);
+    assert.equal(harness.mock.requestsTo('POST', '/stories').length, 0);
+  });
+
+  for (const shape of ['named', 'data'] as const) {
+    test(`get_story reads ${shape} responses`, async () => {
+      harness.mock.shape = shape;
+      const story = harness.mock.addStory({ name: 'Apply discount', project_id: project.id, estimate: 2 });
+
+      const text = await harness.call('get_story', { story_id: story.id });
+      assert.match(text, /Apply discount/);
+      assert.match(text, /Backlog/);
+    });
+  }
+
+  test('API validation errors become InvalidParams with field details', async () => {
+    const error = await harness.callError('create_story', { name: '   ' });
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, /name: The name field is required\./);
+  });
+
+  test('missing stories become InvalidParams', async () => {
+    const error = await harness.callError('get_story', { story_id: 999999 });
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, /Resource not found/);
+  });
+
+  test('unknown tools are reported as MethodNotFound', async () => {
+    const error = await harness.callError('delete_everything');
+    assert.equal(error.code, ErrorCode.MethodNotFound);
+  });
+
+  test('update_story only moves a story into an epic of its own project', async () => {
+    const story = harness.mock.addStory({ name: 'Card form', project_id: project.id });
+    const epic = harness.mock.addEpic({ name: 'Payments', project_id: project.id });
+    harness.mock.addProject({ id: 7, name: 'Payroll' });
+    const outside = harness.mock.addEpic({ name: 'Taxes', project_id: 7 });
+
+    const error = await harness.callError('update_story', { story_id: story.id, epic_id: outside.id });
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, new RegExp(`Epic #${outside.id} belongs to project #7, but story #${story.id} is in project #42`));
+    assert.equal(story.epic_id, undefined);
+
+    assert.match(await harness.call('update_story', { story_id: story.id, epic_id: epic.id }), /Story Updated/);
+    assert.equal(story.epic_id, epic.id);
+  });
+
+  test('resources render with the tool formatters', async () => {
+    const done = harness.mock.addStory({ name: 'Shipped', project_id: project.id, status: 5 });
+    const backlog = harness.mock.addStory({ name: 'Card form', project_id: project.id, estimate: 2 });
+    const active = harness.mock.addStory({ name: 'Refunds', project_id: project.id, status: 3 });
+    const read = async (uri: string) => String((await harness.client.readResource({ uri })).contents[0].text);
+
+    assert.match(await read(`softypm://projects/${project.id}`), /📊 \*\*Checkout Revamp\*\* \(Project #42\)/);
+    assert.match(
+      await read(`softypm://projects/${project.id}/stories`),
+      new RegExp(`#${active.id}: Refunds \\[In Progress\\]\n• #${backlog.id}: Card form \\[Backlog\\] \\(2h\\)\n• #${done.id}: Shipped \\[Done\\]`)
+    );
+    const story = await read(`softypm://stories/${backlog.id}`);
+    assert.match(story, new RegExp(`📋 \\*\\*Story #${backlog.id}\\*\\*: Card form\n`));
+    assert.match(story, /📊 \*\*Status\*\*: Backlog\n⏱️ \*\*Estimate\*\*: 2 hours/);
+    assert.match(story, /Valid next steps\*\*: In Progress$/);
+  });
+
+  test('list_my_stories filters and pages', async () => {
+    for (let i = 1; i <= 12; i++) {
+      harness.mock.addStory({ name: `Story ${i}`, project_id: project.id, status: i % 2 ? 1 : 3 });
+    }
+
+    const text = await harness.call('list_my_stories', { status: 'Backlog', limit: 5 });
+    assert.match(text, /Story 1\b/);
+    assert.doesNotMatch(text, /Story 2\b/);
+    assert.match(text, /Showing 1-5 of 6/);
+    assert.match(text, /"offset":5/);
+  });
+
+  test('list_my_stories treats a date-only created_before as the end of that day', async () => {
+    harness.mock.addStory({ name: 'Afternoon story', project_id: project.id, created_at: '2026-10-10T15:00:00Z' });
+    harness.mock.addStory({ name: 'Next day story', project_id: project.id, created_at: '2026-10-11T00:00:00Z' });
+
+    const text = await harness.call('list_my_stories', { created_before: '2026-10-10' });
+    assert.match(text, /Afternoon story/);
+    assert.doesNotMatch(text, /Next day story/);
+  });
+});
+
+describe('workflow validation', () => {
+  beforeEach(async () => {
+    await setUp();
+    await harness.call('set_project_context', { project_id: project.id });
+  });
+
+  test('allows Backlog → In Progress and starts a timer', async () => {
+    const story = harness.mock.addStory({ name: 'Wire up API', project_id: project.id, status: 1 });
+
+    const text = await harness.call('update_story_status', { story_id: story.id, status: 'In Progress' });
+    assert.match(text, /Backlog → In Progress/);
+    assert.match(text, /Timer\*\*: started/);
+    assert.equal(story.status, 3);
+  });
+
+  test('rejects skipping from Backlog straight to Done', async () => {
+    const story = harness.mock.addStory({ name: 'Skip ahead', project_id: project.id, status: 1 });
+
+    const text = await harness.call('update_story_status', { story_id: story.id, status: 5 });
+    assert.match(text, /Invalid Workflow Transition/);
+    assert.equal(harness.mock.requestsTo('POST', `/stories/${story.id}/status`).length, 0);
+  });
+
+  test('rejects statuses the workflow does not define', async () => {
+    const story = harness.mock.addStory({ name: 'Mystery', project_id: project.id, status: 1 });
+
+    const error = await harness.callError('update_story_status', { story_id: story.id, status: 'Blocked' });
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, /Valid statuses: 1=Backlog, 3=In Progress, 5=Done/);
+  });
+
+  test('uses the project workflow and its guards', async () => {
+    // Workflows are cached per project, so use one the server hasn't looked at yet
+    const custom = harness.mock.addProject({ name: 'Custom Board' });
+    harness.mock.workflows.set(custom.id, {
+      states: [
+        { id: 1, name: 'Todo', category: 'backlog' },
+        { id: 2, name: 'Doing', category: 'active' },
+        { id: 4, name: 'Review', category: 'active' },
+        { id: 5, name: 'Shipped', category: 'done' },
+      ],
+      transitions: { '1': [2], '2': [4], '4': [5, 2], '5': [] },
+      guards: [{ to: 5, require_notes: true }],
+    });
+    const story = harness.mock.addStory({ name: 'Guarded', project_id: custom.id, status: 4 });
+
+    const blocked = await harness.call('update_story_status', { story_id: story.id, status: 'Shipped' });
+    assert.match(blocked, /requires notes/);
+
+    const shipped = await harness.call('update_story_status', { story_id: story.id, status: 'Shipped', notes: 'Released in 2.3' });
+    assert.match(shipped, /Review → Shipped/);
+    assert.equal(harness.mock.comments[0].body, '**Review → Shipped**: Released in 2.3');
+  });
+
+  test('refuses status changes while the project workflow cannot be fetched', async () => {
+    const custom = harness.mock.addProject({ name: 'Flaky Board' });
+    harness.mock.workflows.set(custom.id, {
+      states: [
+        { id: 1, name: 'Todo', category: 'backlog' },
+        { id: 2, name: 'Doing', category: 'active' },
+      ],
+      transitions: { '1': [2], '2': [1] },
+    });
+    const story = harness.mock.addStory({ name: 'Outage', project_id: custom.id, status: 1 });
+    harness.mock.fail({ method: 'GET', path: `/claude-code/projects/${custom.id}/workflow`, times: 1 });
+
+    const outage = await harness.callError('update_story_status', { story_id: story.id, status: 'Doing' });
+    assert.match(outage.message, new RegExp(`Failed to get workflow for project ${custom.id}: SoftYPM server error`));
+    assert.equal(story.status, 1);
+
+    const moved = await harness.call('update_story_status', { story_id: story.id, status: 'Doing' });
+    assert.match(moved, /Todo → Doing/);
+  });
+});
+
+describe('offline mode', () => {
+  beforeEach(async () => {
+    await setUp();
+    await harness.call('set_project_context', { project_id: project.id });
+  });
+
+  test('queues writes while the API is unreachable and reports them in sync_status', async () => {
+    const story = harness.mock.addStory({ name: 'Cached story', project_id: project.id });
+    await harness.call('list_my_stories');
+    harness.mock.fail({ path: /.*/, disconnect: true });
+
+    const moved = await harness.call('update_story_status', { story_id: story.id, status: 3, notes: 'Picking this up' });
+    assert.match(moved, /Status Change Queued/);
+    assert.match(moved, /Notes\*\* \(saved as a comment when the change syncs\): Picking this up/);
+    assert.match(moved, /Offline/);
+
+    const status = await harness.call('sync_status');
+    assert.match(status, /Queued Changes \(1\)/);
+    assert.match(status, new RegExp(`Move story #${story.id} to status 3 and comment on it`));
+
+    harness.mock.clearFailures();
+    const replayed = await harness.call('sync_status', { replay: true });
+    assert.match(replayed, /2 applied/);
+    assert.equal(story.status, 3);
+    assert.deepEqual(harness.mock.comments.map(comment => comment.body), ['**Backlog → In Progress**: Picking this up']);
+  });
+});
+
+describe('json output', () => {
+  beforeEach(async () => {
+    await setUp();
+    await harness.call('set_project_context', { project_id: project.id });
+  });
+
+  afterEach(() => {
+    delete process.env.SOFTYPM_OUTPUT_FORMAT;
+  });
+
+  test('get_project_info returns the project and story counts', async () => {
+    harness.mock.addStory({ name: 'Queued work', project_id: project.id, status: 1 });
+    harness.mock.addStory({ name: 'Current work', project_id: project.id, status: 3 });
+
+    const output = JSON.parse(await harness.call('get_project_info', { format: 'json' }));
+    assert.equal(output.tool, 'get_project_info');
+    assert.equal(output.result.project.name, 'Checkout Revamp');
+    assert.deepEqual(output.result.story_counts, { backlog: 1, active: 1, done: 0 });
+    assert.equal(output.result.next_stories[0].name, 'Current work');
+    assert.equal(output.status.queued_changes, 0);
+  });
+
+  test('update_story_status returns the transition result', async () => {
+    const story = harness.mock.addStory({ name: 'Wire up API', project_id: project.id, status: 1 });
+
+    const output = JSON.parse(await harness.call('update_story_status', { story_id: story.id, status: 'In Progress', format: 'json' }));
+    assert.equal(output.result.outcome, 'updated');
+    assert.deepEqual(output.result.from, { id: 1, name: 'Backlog', category: 'backlog' });
+    assert.equal(output.result.to.name, 'In Progress');
+    assert.equal(output.result.story.status, 3);
+    assert.deepEqual(output.result.timer, { action: 'started' });
+
+    const other = harness.mock.addStory({ name: 'Skip ahead', project_id: project.id, status: 1 });
+    const rejected = JSON.parse(await harness.call('update_story_status', { story_id: other.id, status: 'Done', format: 'json' }));
+    assert.equal(rejected.result.outcome, 'rejected');
+    assert.deepEqual(rejected.result.valid_next.map((state: { name: string }) => state.name), ['In Progress']);
+  });
+
+  test('SOFTYPM_OUTPUT_FORMAT sets the default and markdown can still be requested', async () => {
+    harness.mock.addStory({ name: 'Listed story', project_id: project.id });
+    process.env.SOFTYPM_OUTPUT_FORMAT = 'json';
+
+    const output = JSON.parse(await harness.call('list_my_stories'));
+    assert.equal(output.result.total, 1);
+    assert.equal(output.result.stories[0].name, 'Listed story');
+
+    assert.match(await harness.call('list_my_stories', { format: 'markdown' }), /📋 \*\*Stories\*\*/);
+  });
+
+  test('rejects unknown formats', async () => {
+    const error = await harness.callError('list_my_stories', { format: 'xml' });
+    assert.equal(error.code, ErrorCode.InvalidParams);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_WORKFLOW, loadLocalWorkflow, Workflow } from '../src/workflow.js';
+
+describe('Workflow', () => {
+  const workflow = new Workflow(DEFAULT_WORKFLOW);
+
+  test('resolves statuses by ID or name', () => {
+    assert.equal(workflow.resolveStatus(3), 3);
+    assert.equal(workflow.resolveStatus('5'), 5);
+    assert.equal(workflow.resolveStatus(' in progress '), 3);
+    assert.throws(() => workflow.resolveStatus(2), /Unknown status "2"/);
+  });
+
+  test('only allows defined transitions', () => {
+    assert.deepEqual(workflow.checkTransition(1, 3), { allowed: true });
+    assert.equal(workflow.checkTransition(1, 5).allowed, false);
+    assert.deepEqual(workflow.nextStates(3).map(state => state.name), ['Done', 'Backlog']);
+  });
+
+  test('applies guards to matching transitions', () => {
+    const guarded = new Workflow({
+      ...DEFAULT_WORKFLOW,
+      guards: [{ from: 1, to: 3, require_estimate: true, message: 'Estimate it first' }],
+    });
+
+    assert.deepEqual(guarded.checkTransition(1, 3, { story: {} }), { allowed: false, reason: 'Estimate it first' });
+    assert.deepEqual(guarded.checkTransition(1, 3, { story: { estimate: 2 } }), { allowed: true });
+    assert.deepEqual(guarded.checkTransition(5, 3, { story: {} }), { allowed: true });
+  });
+
+  test('rejects transitions to undefined states', () => {
+    assert.throws(
+      () => new Workflow({ ...DEFAULT_WORKFLOW, transitions: { '1': [2] } }),
+      /unknown state 2/
+    );
+  });
+
+  test('refuses a workflow file that is not valid JSON', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'softypm-workflow-'));
+    const file = join(dir, 'workflow.json');
+    writeFileSync(file, '{ "states": [');
+    process.env.SOFTYPM_WORKFLOW_FILE = file;
+    try {
+      assert.throws(() => loadLocalWorkflow(dir), /Invalid workflow file .*workflow\.json/);
+    } finally {
+      delete process.env.SOFTYPM_WORKFLOW_FILE;
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});